@@ -4,8 +4,19 @@ import { fileURLToPath, URL } from 'node:url';
 import { resolve } from 'path';
 import { defineConfig } from 'vitepress';
 import { readingTime } from './plugins/readingTime';
+import {
+  renderedAnchorsPlugin,
+  searchIndexPlugin,
+} from './plugins/searchIndex';
+import { generateServiceWorker } from './plugins/serviceWorker';
 import { typescriptPlugin } from './plugins/typescript';
-import { codePreviewPlugin } from './theme/markdown/codePreview';
+import {
+  codePreviewPlugin,
+  finishCodePreviewCache,
+} from './theme/markdown/codePreview';
+import { fenceAnchorsPlugin } from './theme/markdown/fenceAnchors';
+import { codePreviewTransformer } from './theme/markdown/previewTransformer';
+import { tooltipTriggersPlugin } from './theme/markdown/tooltipTriggers';
 import { withMermaid } from 'vitepress-plugin-mermaid';
 
 const __dirname = fileURLToPath(new URL('.', import.meta.url));
@@ -62,6 +73,11 @@ export default withMermaid(
       /\.\/component-[a-z]/,
     ],
 
+    buildEnd(siteConfig) {
+      finishCodePreviewCache(siteConfig.logger);
+      generateServiceWorker(siteConfig);
+    },
+
     transformPageData(pageData) {
       // Get content preview for the current page
       const preview = extractContentPreview(pageData.relativePath);
@@ -241,10 +257,16 @@ export default withMermaid(
         dark: 'github-dark',
       },
       lineNumbers: true,
+      codeTransformers: [codePreviewTransformer()],
       config: (md) => {
         md.use(readingTime);
         md.use(typescriptPlugin);
-        md.use(codePreviewPlugin);
+        md.use(codePreviewPlugin, {
+          cacheDir: resolve(__dirname, 'cache/code-preview'),
+        });
+        md.use(tooltipTriggersPlugin);
+        md.use(fenceAnchorsPlugin);
+        md.use(renderedAnchorsPlugin);
       },
     },
     mermaid: {
@@ -253,6 +275,7 @@ export default withMermaid(
       logLevel: 1,
     },
     vite: {
+      plugins: [searchIndexPlugin()],
       build: {
         cssMinify: true,
         cssCodeSplit: true,
@@ -571,23 +594,6 @@ export default withMermaid(
           dateStyle: 'full',
         },
       },
-      search: {
-        provider: 'local',
-        options: {
-          detailedView: true,
-          miniSearch: {
-            searchOptions: {
-              fuzzy: 0.2,
-              prefix: true,
-              boost: {
-                title: 2,
-                text: 1,
-                titles: 1.5,
-              },
-            },
-          },
-        },
-      },
     },
     locales: {
       root: {
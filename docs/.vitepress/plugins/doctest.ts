@@ -0,0 +1,48 @@
+import { readFileSync } from 'fs';
+import * as ts from 'typescript';
+import type { Plugin } from 'vitepress';
+import { collectDoctests, parseDoctestId } from '../utils/doctest';
+
+// Serves the virtual module `page.md.doctest-<line>.js` as the compiled code
+// of the doctest fence opening at that line of `page.md`
+export function doctestPlugin(): Plugin {
+  return {
+    name: 'web-patterns:doctest',
+    enforce: 'pre',
+    resolveId(id) {
+      return parseDoctestId(id) ? id : undefined;
+    },
+    load(id) {
+      const target = parseDoctestId(id);
+      if (!target) return undefined;
+
+      const source = readFileSync(target.file, 'utf-8');
+      const doctest = collectDoctests(source, target.file).find(
+        (candidate) => candidate.line === target.line
+      );
+      if (!doctest) {
+        throw new Error(
+          `No doctest fence at ${target.file}:${target.line}; is it tagged with :doctest?`
+        );
+      }
+
+      this.addWatchFile(target.file);
+
+      const output = ts.transpileModule(doctest.code, {
+        fileName: `${target.file}.ts`,
+        compilerOptions: {
+          target: ts.ScriptTarget.ES2022,
+          module: ts.ModuleKind.ESNext,
+          sourceMap: true,
+        },
+      });
+      const map = JSON.parse(output.sourceMapText!);
+      map.sources = [target.file];
+
+      return {
+        code: output.outputText.replace(/\/\/# sourceMappingURL=.*$/m, ''),
+        map,
+      };
+    },
+  };
+}
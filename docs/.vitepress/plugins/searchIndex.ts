@@ -0,0 +1,326 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import matter from 'gray-matter';
+import path from 'path';
+import type { MarkdownRenderer, Plugin, SiteConfig } from 'vitepress';
+import { getFenceAnchor } from '../theme/markdown/fenceAnchors';
+import {
+  collectDefinitions,
+  splitSections,
+  type SearchSection,
+  type SymbolDefinition,
+} from '../utils/searchSections';
+
+const VIRTUAL_ID = 'virtual:search-index';
+const RESOLVED_VIRTUAL_ID = `\0${VIRTUAL_ID}`;
+// Sent to the client in dev with the new index URLs
+const SEARCH_INDEX_UPDATE_EVENT = 'search-index:update';
+
+// Bump whenever what is built from a page changes, so a cache written by an
+// older builder is never read back
+const BUILDER_VERSION = 3;
+
+interface IndexedPage {
+  // Compared instead of the contents, so unchanged files are not even read
+  mtimeMs: number;
+  size: number;
+  sections: SearchSection[];
+  definitions: SymbolDefinition[];
+}
+
+interface SearchIndexCache {
+  // Builder version and routing options the pages were indexed with
+  key: string;
+  // Keyed by page path relative to `srcDir`
+  pages: Record<string, IndexedPage>;
+}
+
+interface IndexFile {
+  name: string;
+  source: string;
+  hash: string;
+}
+
+// Ids markdown-it gave headings and fences, per rendered page
+const renderedAnchors = new Map<string, Set<string>>();
+
+// Record the ids of headings and code blocks as they are rendered, so the
+// search index can be checked for dead deep links
+export function renderedAnchorsPlugin(md: MarkdownRenderer) {
+  md.core.ruler.push('search_index_anchors', (state) => {
+    const relativePath: string | undefined = state.env?.relativePath;
+    if (!relativePath) return;
+
+    const anchors = new Set<string>();
+    state.tokens.forEach((token) => {
+      const id = token.type === 'heading_open' ? token.attrGet('id') : null;
+      if (id) anchors.add(id);
+      if (token.type === 'fence' && token.map) {
+        anchors.add(getFenceAnchor(token.map[0] + 1));
+      }
+    });
+    renderedAnchors.set(relativePath, anchors);
+  });
+}
+
+// The URL VitePress serves a page at, including `base`
+export function getPageUrl(
+  page: string,
+  { base, cleanUrls }: { base: string; cleanUrls?: boolean }
+): string {
+  const route = page
+    .replace(/(^|\/)index\.md$/, '$1')
+    .replace(/\.md$/, cleanUrls ? '' : '.html');
+  return `${base}${route}`;
+}
+
+// The same rules VitePress applies to dead links in pages
+function shouldIgnoreDeadLink(
+  url: string,
+  ignoreDeadLinks: SiteConfig['ignoreDeadLinks']
+) {
+  if (!ignoreDeadLinks) return false;
+  if (ignoreDeadLinks === true) return true;
+  if (ignoreDeadLinks === 'localhostLinks') return false;
+
+  return ignoreDeadLinks.some((ignore) => {
+    if (typeof ignore === 'string') return url === ignore;
+    if (ignore instanceof RegExp) return ignore.test(url);
+    return ignore(url);
+  });
+}
+
+function createIndexFile(name: string, entries: unknown[]): IndexFile {
+  const source = JSON.stringify(entries);
+  const hash = createHash('sha1').update(source).digest('hex').slice(0, 8);
+  return { name, source, hash };
+}
+
+// Builds `search-index.json` and `symbol-index.json` from the pages VitePress
+// serves. Builds emit them as hashed assets; dev serves them from memory and
+// re-indexes pages as they are edited. Import their URLs from
+// `virtual:search-index`
+export function searchIndexPlugin(): Plugin {
+  let siteConfig: SiteConfig;
+  let isBuild = false;
+  let isSsr = false;
+  let cacheFile: string;
+  let cacheKey: string;
+  const pages = new Map<string, IndexedPage>();
+  let searchIndex: IndexFile;
+  let symbolIndex: IndexFile;
+
+  function getUrl(file: IndexFile) {
+    const { base } = siteConfig.site;
+    return isBuild
+      ? `${base}${siteConfig.assetsDir}/${file.name}.${file.hash}.json`
+      : `${base}${file.name}.json?v=${file.hash}`;
+  }
+
+  function getUrls() {
+    return {
+      searchIndexUrl: getUrl(searchIndex),
+      symbolIndexUrl: getUrl(symbolIndex),
+    };
+  }
+
+  function readCache(): Record<string, IndexedPage> {
+    try {
+      const cache: SearchIndexCache = JSON.parse(
+        fs.readFileSync(cacheFile, 'utf-8')
+      );
+      return cache.key === cacheKey ? cache.pages : {};
+    } catch {
+      // No previous build to start from
+      return {};
+    }
+  }
+
+  function writeCache() {
+    const cache: SearchIndexCache = {
+      key: cacheKey,
+      pages: Object.fromEntries(pages),
+    };
+    fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+    fs.writeFileSync(cacheFile, JSON.stringify(cache));
+  }
+
+  // Re-index `page` unless it is unchanged since `cached` was built
+  function indexPage(page: string, cached?: IndexedPage) {
+    const file = path.join(siteConfig.srcDir, page);
+    // Dynamic routes have no file of their own
+    if (!fs.existsSync(file)) return false;
+
+    const { mtimeMs, size } = fs.statSync(file);
+    if (cached?.mtimeMs === mtimeMs && cached.size === size) {
+      pages.set(page, cached);
+      return false;
+    }
+
+    const { data, content: markdown } = matter(fs.readFileSync(file, 'utf-8'));
+    const target = {
+      title: data.title || path.basename(page, '.md'),
+      path: getPageUrl(siteConfig.rewrites.map[page] || page, {
+        base: siteConfig.site.base,
+        cleanUrls: siteConfig.cleanUrls,
+      }),
+    };
+    // Pages opt out like they do of VitePress's local search
+    const isSearchable = data.search !== false;
+
+    pages.set(page, {
+      mtimeMs,
+      size,
+      sections: isSearchable ? splitSections(markdown, target) : [],
+      definitions: isSearchable ? collectDefinitions(markdown, target) : [],
+    });
+    return true;
+  }
+
+  function writeIndexes() {
+    const indexed = [...pages.values()];
+    searchIndex = createIndexFile(
+      'search-index',
+      indexed.flatMap(({ sections }) => sections)
+    );
+    symbolIndex = createIndexFile(
+      'symbol-index',
+      indexed.flatMap(({ definitions }) => definitions)
+    );
+  }
+
+  function buildIndexes() {
+    const cached = readCache();
+    pages.clear();
+    const rebuilt = siteConfig.pages.filter((page) =>
+      indexPage(page, cached[page])
+    ).length;
+
+    writeIndexes();
+    writeCache();
+    siteConfig.logger.info(
+      `Search index: ${pages.size} pages, ${rebuilt} re-indexed`
+    );
+  }
+
+  // Deep links of the index whose anchor was never rendered
+  function findDeadLinks() {
+    const deadLinks: string[] = [];
+
+    pages.forEach(({ sections, definitions }, page) => {
+      const rendered = renderedAnchors.get(
+        siteConfig.rewrites.map[page] || page
+      );
+      // Pages that were not rendered cannot be checked
+      if (!rendered) return;
+
+      [...sections, ...definitions].forEach(({ path: url, anchor }) => {
+        if (!anchor || rendered.has(anchor)) return;
+
+        const link = `/${url.slice(siteConfig.site.base.length)}#${anchor}`;
+        if (!shouldIgnoreDeadLink(link, siteConfig.ignoreDeadLinks)) {
+          deadLinks.push(`${link} (in ${page})`);
+        }
+      });
+    });
+
+    return deadLinks;
+  }
+
+  return {
+    name: 'web-patterns:search-index',
+    configResolved(config) {
+      siteConfig = (config as unknown as { vitepress: SiteConfig }).vitepress;
+      isBuild = config.command === 'build';
+      isSsr = !!config.build.ssr;
+      cacheFile = path.join(siteConfig.cacheDir, 'search-index.json');
+      cacheKey = JSON.stringify({
+        version: BUILDER_VERSION,
+        base: siteConfig.site.base,
+        cleanUrls: siteConfig.cleanUrls,
+        rewrites: siteConfig.rewrites.map,
+      });
+    },
+    buildStart() {
+      buildIndexes();
+    },
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_VIRTUAL_ID : undefined;
+    },
+    load(id) {
+      if (id !== RESOLVED_VIRTUAL_ID) return undefined;
+
+      const { searchIndexUrl, symbolIndexUrl } = getUrls();
+      return [
+        `export const searchIndexUrl = ${JSON.stringify(searchIndexUrl)};`,
+        `export const symbolIndexUrl = ${JSON.stringify(symbolIndexUrl)};`,
+      ].join('\n');
+    },
+    generateBundle() {
+      // The server bundle never reaches the browser
+      if (isSsr) return;
+
+      const deadLinks = findDeadLinks();
+      if (deadLinks.length > 0) {
+        this.error(
+          `Found dead links in the search index:\n${deadLinks
+            .map((link) => `  ${link}`)
+            .join('\n')}\nAdd them to \`ignoreDeadLinks\` if this is expected.`
+        );
+      }
+
+      [searchIndex, symbolIndex].forEach(({ name, source, hash }) => {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${siteConfig.assetsDir}/${name}.${hash}.json`,
+          source,
+        });
+      });
+    },
+    configureServer(server) {
+      const files = () => [searchIndex, symbolIndex];
+
+      server.middlewares.use((req, res, next) => {
+        const pathname = req.url?.split('?')[0];
+        const file = files().find(
+          ({ name }) => pathname === `${siteConfig.site.base}${name}.json`
+        );
+        if (!file) return next();
+
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.end(file.source);
+      });
+
+      // Added and deleted pages restart the server, which rebuilds the index
+      server.watcher.on('change', (file) => {
+        const page = path
+          .relative(siteConfig.srcDir, file)
+          .split(path.sep)
+          .join('/');
+        if (!siteConfig.pages.includes(page)) return;
+        if (!indexPage(page, pages.get(page))) return;
+
+        const previous = files()
+          .map(({ hash }) => hash)
+          .join();
+        writeIndexes();
+        writeCache();
+        if (
+          files()
+            .map(({ hash }) => hash)
+            .join() === previous
+        )
+          return;
+
+        const module = server.moduleGraph.getModuleById(RESOLVED_VIRTUAL_ID);
+        if (module) server.moduleGraph.invalidateModule(module);
+        server.ws.send({
+          type: 'custom',
+          event: SEARCH_INDEX_UPDATE_EVENT,
+          data: getUrls(),
+        });
+      });
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import { fileURLToPath, URL } from 'node:url';
+import path from 'path';
+import * as ts from 'typescript';
+import type { SiteConfig } from 'vitepress';
+import {
+  SERVICE_WORKER_FILE,
+  type OfflinePage,
+  type PrecacheManifest,
+} from '../theme/offline/protocol';
+import { getPageUrl } from './searchIndex';
+
+// Relative to this file
+const WORKER_SOURCE = '../theme/offline/serviceWorker.ts';
+// Pages of the shell, whose links are cached with it
+const SHELL_PAGES = ['index.html', '404.html'];
+// Relative to `assetsDir`: the entry and the chunks VitePress splits it into,
+// which every page loads. Other chunks, like mermaid's, are only cached once
+// requested or by a download
+const SHELL_CHUNK = /^(app|chunks\/(framework|theme))\.[\w-]+\.js$/;
+const SHELL_INDEX = /^(search|symbol)-index\.[\w-]+\.json$/;
+
+interface ManifestOptions {
+  base: string;
+  assetsDir: string;
+  cleanUrls?: boolean;
+}
+
+// Paths of all files below `dir`, relative to `root` and with `/` separators
+function listFiles(dir: string, root = dir): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    return entry.isDirectory()
+      ? listFiles(file, root)
+      : [path.relative(root, file).split(path.sep).join('/')];
+  });
+}
+
+// Files of the site an HTML page links to, without `base`
+function getLinkedFiles(html: string, base: string): string[] {
+  return [...html.matchAll(/(?:href|src)="([^"#?]+)/g)]
+    .map(([, url]) => url)
+    .filter((url) => url.startsWith(base))
+    .map((url) => url.slice(base.length));
+}
+
+// Lists what the service worker of the site built into `outDir` caches
+export function createPrecacheManifest(
+  outDir: string,
+  { base, assetsDir, cleanUrls }: ManifestOptions
+): PrecacheManifest {
+  const files = listFiles(outDir).sort();
+  const read = (file: string) => fs.readFileSync(path.join(outDir, file));
+  const isAsset = (file: string) => file.startsWith(`${assetsDir}/`);
+
+  // Styles, fonts, icons and the web manifest the shell links to; the scripts
+  // it preloads include chunks of the home page
+  const linked = new Set(
+    SHELL_PAGES.filter((file) => files.includes(file)).flatMap((file) =>
+      getLinkedFiles(read(file).toString(), base)
+    )
+  );
+  const isShellAsset = (file: string) => {
+    const asset = file.slice(assetsDir.length + 1);
+    return (
+      SHELL_CHUNK.test(asset) ||
+      SHELL_INDEX.test(asset) ||
+      (linked.has(file) && !asset.endsWith('.js'))
+    );
+  };
+  const shell = [
+    // `index.html`, requested by its route
+    base,
+    `${base}404.html`,
+    ...files
+      .filter((file) =>
+        isAsset(file)
+          ? isShellAsset(file)
+          : linked.has(file) && !file.endsWith('.html')
+      )
+      .map((file) => `${base}${file}`),
+  ];
+
+  const pages = files
+    .filter((file) => file.endsWith('.html') && file !== '404.html')
+    .flatMap((file): OfflinePage[] => {
+      // Every page preloads its lean chunk
+      const lean = getLinkedFiles(read(file).toString(), base).find(
+        (url) => isAsset(url) && url.endsWith('.lean.js')
+      );
+      if (!lean) return [];
+
+      return [
+        {
+          url: getPageUrl(file.replace(/\.html$/, '.md'), { base, cleanUrls }),
+          chunk: `${base}${lean.replace(/\.lean\.js$/, '.js')}`,
+        },
+      ];
+    });
+
+  // Hashed assets are renamed when they change, everything else is compared
+  // by content
+  const hash = createHash('sha1');
+  files.forEach((file) => {
+    hash.update(file);
+    if (!isAsset(file)) hash.update(read(file));
+  });
+
+  return {
+    version: hash.digest('hex').slice(0, 8),
+    shell,
+    pages,
+  };
+}
+
+// Writes `sw.js` for the site built into `outDir`. Called from `buildEnd`,
+// once every page has been rendered
+export function generateServiceWorker(siteConfig: SiteConfig) {
+  const manifest = createPrecacheManifest(siteConfig.outDir, {
+    base: siteConfig.site.base,
+    assetsDir: siteConfig.assetsDir,
+    cleanUrls: siteConfig.cleanUrls,
+  });
+  const { outputText } = ts.transpileModule(
+    fs.readFileSync(
+      fileURLToPath(new URL(WORKER_SOURCE, import.meta.url)),
+      'utf-8'
+    ),
+    {
+      compilerOptions: {
+        target: ts.ScriptTarget.ES2020,
+        // Drops the type imports without turning the worker into a module
+        module: ts.ModuleKind.Preserve,
+        removeComments: true,
+      },
+    }
+  );
+
+  fs.writeFileSync(
+    path.join(siteConfig.outDir, SERVICE_WORKER_FILE),
+    `const PRECACHE = ${JSON.stringify(manifest)};\n${outputText}`
+  );
+  siteConfig.logger.info(
+    `Service worker: version ${manifest.version}, ${manifest.shell.length} shell files, ${manifest.pages.length} pages`
+  );
+}
@@ -0,0 +1,88 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path, { join } from 'path';
+import process from 'node:process';
+import { fileURLToPath } from 'url';
+import { createMarkdownRenderer } from 'vitepress';
+import { findMarkdownFiles } from '../utils/markdownFiles';
+import {
+  checkMarkdownFile,
+  createAllowlist,
+  createReport,
+  formatReport,
+  parseAllowlist,
+  type Allowlist,
+} from '../utils/typecheckDocs';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const docsDir = join(__dirname, '../..');
+const allowlistPath = join(__dirname, '../typecheck-allowlist.json');
+
+// Usage: tsx docs/.vitepress/scripts/typecheckDocs.ts [--json] [--verbose] [--update-allowlist]
+const args = process.argv.slice(2);
+const asJson = args.includes('--json');
+const verbose = args.includes('--verbose');
+const updateAllowlist = args.includes('--update-allowlist');
+
+function readAllowlist(): Allowlist {
+  if (!existsSync(allowlistPath)) return { fences: [] };
+
+  const raw = readFileSync(allowlistPath, 'utf-8');
+  // Updating only carries reasons over, so entries still missing one are fine
+  return updateAllowlist ? JSON.parse(raw) : parseAllowlist(raw);
+}
+
+async function typecheckDocs() {
+  const md = await createMarkdownRenderer(docsDir);
+  const allowlist = readAllowlist();
+
+  const results = findMarkdownFiles(docsDir)
+    .sort()
+    .map((file) => {
+      const relativePath = path
+        .relative(docsDir, file)
+        .split(path.sep)
+        .join('/');
+      const source = readFileSync(file, 'utf-8');
+      return {
+        file: relativePath,
+        fences: checkMarkdownFile(md, source, file, relativePath),
+      };
+    });
+
+  const report = createReport(results, allowlist);
+
+  if (updateAllowlist) {
+    const updated = createAllowlist(report, allowlist);
+    writeFileSync(allowlistPath, `${JSON.stringify(updated, null, 2)}\n`);
+    process.stderr.write(
+      `Allow-list updated with ${updated.fences.length} fences\n`
+    );
+
+    const unexplained = updated.fences.filter((entry) => !entry.reason);
+    unexplained.forEach((entry) => {
+      process.stderr.write(`missing reason: ${entry.file} ${entry.hash}\n`);
+    });
+    if (unexplained.length > 0) {
+      process.stderr.write(
+        `Add a reason to ${unexplained.length} new allow-list entries\n`
+      );
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  process.stdout.write(
+    asJson
+      ? `${JSON.stringify(report, null, 2)}\n`
+      : `${formatReport(report, { verbose })}\n`
+  );
+
+  if (report.summary.new > 0) {
+    process.exitCode = 1;
+  }
+}
+
+typecheckDocs().catch((error) => {
+  process.stderr.write(`Failed to type-check docs: ${error}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,126 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  collectDoctests,
+  extractFences,
+  getDoctestId,
+} from '../../utils/doctest';
+import { findMarkdownFiles } from '../../utils/markdownFiles';
+
+const docsDir = path.resolve(__dirname, '../../..');
+
+// Upper bound on timers fired while waiting for a sample, so intervals that are
+// never cleared cannot loop forever
+const MAX_TIMER_STEPS = 1000;
+
+// Advance fake timers until `value` settles
+async function settle<T>(value: T | Promise<T>): Promise<T> {
+  let settled = false;
+  const result = Promise.resolve(value).finally(() => {
+    settled = true;
+  });
+
+  for (let step = 0; step < MAX_TIMER_STEPS; step++) {
+    await Promise.resolve();
+    if (settled || vi.getTimerCount() === 0) break;
+    await vi.advanceTimersToNextTimerAsync();
+  }
+
+  return result;
+}
+
+describe('Doctest collection', () => {
+  const source = [
+    '# Page',
+    '',
+    '```ts:preview:doctest',
+    'const add = (a: number, b: number) => a + b;',
+    '```',
+    '',
+    '```ts:preview',
+    'add(1, 2);',
+    '```',
+    '',
+    '```ts:doctest',
+    'const addTest = () => console.assert(add(1, 2) === 3);',
+    '```',
+  ].join('\n');
+
+  it('should find fences with their lines', () => {
+    expect(extractFences(source).map((fence) => fence.line)).toEqual([
+      3, 7, 11,
+    ]);
+  });
+
+  it('should keep included fences on their markdown lines', () => {
+    const [, doctest] = collectDoctests(source, 'page.md');
+    const lines = doctest.code.split('\n');
+
+    expect(doctest.line).toBe(11);
+    expect(doctest.tests).toEqual(['addTest']);
+    expect(lines[3]).toContain('const add');
+    expect(lines[7]).toBe('');
+    expect(lines[11]).toContain('const addTest');
+    expect(lines[lines.length - 1]).toBe('export { addTest };');
+  });
+});
+
+findMarkdownFiles(docsDir)
+  .sort()
+  .forEach((file) => {
+    const doctests = collectDoctests(readFileSync(file, 'utf-8'), file);
+    if (doctests.length === 0) return;
+
+    const relativePath = path.relative(docsDir, file);
+
+    describe(`Doctests in ${relativePath}`, () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+        vi.resetModules();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.spyOn(console, 'assert').mockImplementation((condition, ...data) => {
+          if (!condition) {
+            throw new Error(`Assertion failed: ${data.join(' ')}`);
+          }
+        });
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+      });
+
+      doctests.forEach((doctest) => {
+        const load = async () => {
+          const module = await settle(
+            import(/* @vite-ignore */ getDoctestId(file, doctest.line))
+          );
+
+          // Promise tests start as soon as the module loads; only the one
+          // under test is awaited, so keep the others from going unhandled
+          Object.values(module).forEach((value) => {
+            if (value instanceof Promise) value.catch(() => {});
+          });
+
+          return module;
+        };
+
+        if (doctest.tests.length === 0) {
+          it(`${relativePath}:${doctest.line} runs`, async () => {
+            await expect(load()).resolves.toBeDefined();
+          });
+          return;
+        }
+
+        doctest.tests.forEach((name) => {
+          it(`${relativePath}:${doctest.line} ${name}`, async () => {
+            const module = await load();
+            const test = module[name];
+            await settle(typeof test === 'function' ? test() : test);
+          });
+        });
+      });
+    });
+  });
@@ -0,0 +1,3 @@
+// Stands in for `virtual:search-index`, which only the VitePress build provides
+export const searchIndexUrl = '/web-patterns/assets/search-index.1a2b3c4d.json';
+export const symbolIndexUrl = '/web-patterns/assets/symbol-index.5e6f7a8b.json';
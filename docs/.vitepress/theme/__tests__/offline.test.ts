@@ -0,0 +1,175 @@
+import { flushPromises, mount } from '@vue/test-utils';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { createPrecacheManifest } from '../../plugins/serviceWorker';
+import OfflineDownload from '../components/OfflineDownload.vue';
+import type { OfflineStatus } from '../offline/protocol';
+
+const options = {
+  base: '/web-patterns/',
+  assetsDir: 'assets',
+  cleanUrls: true,
+};
+
+function page(leanChunk: string) {
+  return `<link rel="icon" href="/web-patterns/favicon-32x32.png"><link rel="modulepreload" href="/web-patterns/${leanChunk}"><a href="/web-patterns/async/">Async</a>`;
+}
+
+function writeSite(dir: string, files: Record<string, string>) {
+  Object.entries(files).forEach(([file, content]) => {
+    mkdirSync(dirname(join(dir, file)), { recursive: true });
+    writeFileSync(join(dir, file), content);
+  });
+}
+
+describe('Precache manifest', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'precache-'));
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  writeSite(dir, {
+    'index.html': `${page('assets/index.md.A1.lean.js')}<link rel="manifest" href="/web-patterns/manifest.json"><link rel="modulepreload" href="/web-patterns/assets/chunks/framework.G7.js"><link rel="modulepreload" href="/web-patterns/assets/chunks/mermaid.H8.js">`,
+    '404.html':
+      '<link rel="icon" href="/web-patterns/favicon-32x32.png"><link rel="stylesheet" href="/web-patterns/assets/style.F6.css"><link rel="preload" href="/web-patterns/assets/inter.I9.woff2"><script type="module" src="/web-patterns/assets/app.D4.js"></script>',
+    'async/index.html': page('assets/async_index.md.B2.lean.js'),
+    'async/promises.html': page('assets/async_promises.md.C-3.lean.js'),
+    'assets/app.D4.js': '',
+    'assets/chunks/theme.E5.js': '',
+    'assets/chunks/framework.G7.js': '',
+    'assets/chunks/mermaid.H8.js': '',
+    'assets/chunks/katex.J0.js': '',
+    'assets/style.F6.css': '',
+    'assets/inter.I9.woff2': '',
+    'assets/katex.K1.woff2': '',
+    'assets/search-index.0a1b2c3d.json': '[]',
+    'assets/symbol-index.4e5f6a7b.json': '[]',
+    'assets/index.md.A1.js': '',
+    'assets/index.md.A1.lean.js': '',
+    'assets/async_index.md.B2.js': '',
+    'assets/async_index.md.B2.lean.js': '',
+    'assets/async_promises.md.C-3.js': '',
+    'assets/async_promises.md.C-3.lean.js': '',
+    'favicon-32x32.png': 'icon',
+    'manifest.json': '{}',
+    'og-image.png': 'image',
+  });
+
+  it('should cache the shell without lazy chunks', () => {
+    expect(createPrecacheManifest(dir, options).shell).toEqual([
+      '/web-patterns/',
+      '/web-patterns/404.html',
+      '/web-patterns/assets/app.D4.js',
+      '/web-patterns/assets/chunks/framework.G7.js',
+      '/web-patterns/assets/chunks/theme.E5.js',
+      '/web-patterns/assets/inter.I9.woff2',
+      '/web-patterns/assets/search-index.0a1b2c3d.json',
+      '/web-patterns/assets/style.F6.css',
+      '/web-patterns/assets/symbol-index.4e5f6a7b.json',
+      '/web-patterns/favicon-32x32.png',
+      '/web-patterns/manifest.json',
+    ]);
+  });
+
+  it('should list every page with its full chunk', () => {
+    expect(createPrecacheManifest(dir, options).pages).toEqual([
+      {
+        url: '/web-patterns/async/',
+        chunk: '/web-patterns/assets/async_index.md.B2.js',
+      },
+      {
+        url: '/web-patterns/async/promises',
+        chunk: '/web-patterns/assets/async_promises.md.C-3.js',
+      },
+      {
+        url: '/web-patterns/',
+        chunk: '/web-patterns/assets/index.md.A1.js',
+      },
+    ]);
+  });
+
+  it('should change version when the build changes', () => {
+    const { version } = createPrecacheManifest(dir, options);
+    expect(createPrecacheManifest(dir, options).version).toBe(version);
+
+    writeSite(dir, { 'async/promises.html': `${page('x')}<p>Edited</p>` });
+    expect(createPrecacheManifest(dir, options).version).not.toBe(version);
+  });
+});
+
+describe('Offline download', () => {
+  const postMessage = vi.fn();
+  const container = Object.assign(new EventTarget(), {
+    controller: { postMessage },
+  });
+  Object.defineProperty(navigator, 'serviceWorker', {
+    value: container,
+    configurable: true,
+  });
+
+  function sendStatus(status: Partial<OfflineStatus>) {
+    container.dispatchEvent(
+      new MessageEvent('message', {
+        data: {
+          type: 'offline-status',
+          downloaded: 0,
+          total: 3,
+          downloading: false,
+          failed: false,
+          ...status,
+        },
+      })
+    );
+    return flushPromises();
+  }
+
+  afterEach(() => {
+    postMessage.mockClear();
+  });
+
+  it('should stay hidden until the service worker reports', async () => {
+    const wrapper = mount(OfflineDownload);
+
+    expect(postMessage).toHaveBeenCalledWith({ type: 'get-offline-status' });
+    expect(wrapper.find('button').exists()).toBe(false);
+
+    await sendStatus({});
+    expect(wrapper.get('button').attributes('aria-label')).toBe(
+      'Download all patterns for offline'
+    );
+    wrapper.unmount();
+  });
+
+  it('should download all pages and report progress', async () => {
+    const wrapper = mount(OfflineDownload);
+    await sendStatus({});
+
+    await wrapper.get('button').trigger('click');
+    expect(postMessage).toHaveBeenLastCalledWith({ type: 'download-pages' });
+
+    await sendStatus({ downloaded: 1, downloading: true });
+    expect(wrapper.get('button').text()).toBe('33%');
+    expect(wrapper.get('button').attributes('disabled')).toBeDefined();
+
+    await sendStatus({ downloaded: 3 });
+    expect(wrapper.get('button').attributes('aria-label')).toBe(
+      'All patterns are available offline'
+    );
+    expect(wrapper.get('button').attributes('disabled')).toBeDefined();
+    wrapper.unmount();
+  });
+
+  it('should ask again when a new service worker takes over', async () => {
+    const wrapper = mount(OfflineDownload);
+    postMessage.mockClear();
+
+    container.dispatchEvent(new Event('controllerchange'));
+    expect(postMessage).toHaveBeenCalledWith({ type: 'get-offline-status' });
+
+    wrapper.unmount();
+    postMessage.mockClear();
+    container.dispatchEvent(new Event('controllerchange'));
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+});
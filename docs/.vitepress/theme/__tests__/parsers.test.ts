@@ -0,0 +1,389 @@
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import {
+  createParseCache,
+  getParseCacheKey,
+  getParser,
+  parseCode,
+  registerParser,
+  resolveLanguage,
+} from '../utils/parsers';
+
+const texts = (tokens: { text: string }[]) => tokens.map((t) => t.text);
+
+describe('Parser registry', () => {
+  it('should resolve language aliases', () => {
+    expect(resolveLanguage('ts')).toBe('typescript');
+    expect(resolveLanguage('JS')).toBe('javascript');
+    expect(resolveLanguage('sh')).toBe('bash');
+    expect(getParser('ts')).toBe(getParser('typescript'));
+  });
+
+  it('should allow registering custom parsers', () => {
+    registerParser(
+      'custom-lang',
+      (code) => ({
+        tokens: [{ start: 0, end: code.length, type: 'word', text: code }],
+        errors: [],
+        isValid: true,
+        usesFallback: false,
+      }),
+      { aliases: ['custom'] }
+    );
+
+    expect(texts(parseCode('hello', 'custom').tokens)).toEqual(['hello']);
+  });
+
+  it('should return no tokens for unregistered languages', () => {
+    const result = parseCode('const x: string = "y";', 'python');
+    expect(result.tokens).toHaveLength(0);
+    expect(result.usesFallback).toBe(true);
+  });
+});
+
+describe('JavaScript parsers', () => {
+  it('should ignore words inside strings and comments', () => {
+    const code = `// Promise in a comment
+const label = 'Promise in a string';
+const p = Promise.resolve(label);`;
+    const result = parseCode(code, 'javascript');
+
+    const promises = result.tokens.filter((t) => t.text === 'Promise');
+    expect(promises).toHaveLength(1);
+    expect(promises[0].start).toBe(code.lastIndexOf('Promise'));
+    expect(result.isValid).toBe(true);
+  });
+
+  it('should report syntax errors with positions', () => {
+    const result = parseCode('const = 1;', 'js');
+    expect(result.isValid).toBe(false);
+    expect(result.errors?.[0].error).toBeTruthy();
+  });
+});
+
+describe('JSON parser', () => {
+  it('should collect property names and literals', () => {
+    const result = parseCode('{ "strict": true, "lib": ["dom"] }', 'json');
+
+    expect(result.isValid).toBe(true);
+    expect(texts(result.tokens)).toEqual(['strict', 'true', 'lib']);
+  });
+
+  it('should report the first syntax error', () => {
+    const code = '{ "a": 1, }';
+    const result = parseCode(code, 'json');
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors?.[0].error).toBe('Trailing comma is not allowed');
+  });
+
+  it('should accept comments in jsonc', () => {
+    const result = parseCode('{\n  // comment\n  "a": null,\n}', 'jsonc');
+    expect(result.isValid).toBe(true);
+  });
+});
+
+describe('Vue parser', () => {
+  it('should offset script tokens into the component source', () => {
+    const code = `<template><div /></template>
+<script setup lang="ts">
+const count: number = 1;
+</script>`;
+    const result = parseCode(code, 'vue');
+    const count = result.tokens.find((t) => t.text === 'count')!;
+
+    expect(count.start).toBe(code.indexOf('count'));
+    expect(result.isValid).toBe(true);
+  });
+});
+
+describe('Bash parser', () => {
+  it('should tag command names but not arguments or strings', () => {
+    const code = `# install deps
+npm install --save fuse.js && echo "npm done"`;
+    const result = parseCode(code, 'bash');
+    const commands = result.tokens.filter((t) => t.type === 'command');
+
+    expect(texts(commands)).toEqual(['npm', 'echo']);
+  });
+
+  it('should report unterminated quotes', () => {
+    const result = parseCode('echo "oops', 'sh');
+    expect(result.isValid).toBe(false);
+    expect(result.errors?.[0].error).toBe('Unterminated double quote');
+  });
+});
+
+describe('TypeScript parser', () => {
+  it('should report semantic errors against the real lib', () => {
+    const result = parseCode('const id: string = 42;', 'typescript');
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors?.[0].text).toBe('id');
+    expect(result.errors?.[0].error).toContain("Type 'number'");
+  });
+
+  it('should not report missing global types', () => {
+    const result = parseCode(
+      `const el = document.querySelector('div');
+const done: Promise<void> = Promise.resolve();`,
+      'ts'
+    );
+
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should load the ambient API declarations', () => {
+    const result = parseCode(
+      'declare const client: GrpcClient;\nclient.close();',
+      'ts'
+    );
+
+    expect(result.errors).toEqual([]);
+  });
+
+  it("should type the Jest global as Vitest's vi", () => {
+    const result = parseCode(
+      `const mock: jest.Mock<number, [string]> = jest.fn((text: string) => text.length);
+jest.useFakeTimers();`,
+      'ts'
+    );
+
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should load the installed Node and Vitest declarations', () => {
+    const result = parseCode(
+      `import { readFile } from 'fs/promises';
+import { vi } from 'vitest';
+const text: string = await readFile(__filename, 'utf-8');
+const read = vi.fn(() => Buffer.from(text));
+it('reads', () => expect(read().length).toBe(process.argv.length));`,
+      'ts'
+    );
+
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should check package imports against their real types', () => {
+    const result = parseCode(
+      `import { readFile } from 'fs/promises';
+const size: number = await readFile('notes.txt', 'utf-8');`,
+      'ts'
+    );
+
+    expect(result.errors?.[0].error).toContain(
+      "Type 'string' is not assignable to type 'number'"
+    );
+  });
+
+  it('should parse JSX in tsx fences', () => {
+    const code = `const count = 1;
+const App = (): JSX.Element => <div>{count}</div>;`;
+    const result = parseCode(code, 'tsx');
+
+    expect(result.isValid).toBe(true);
+    expect(texts(result.tokens)).toContain('count');
+  });
+
+  it('should type-check tsx fences', () => {
+    const result = parseCode('const App = () => <div>{count}</div>;', 'tsx');
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors?.[0].text).toBe('count');
+  });
+
+  it('should not leak declarations between blocks', () => {
+    parseCode('const shared = 1;', 'ts');
+    const result = parseCode('const shared = 2;', 'ts');
+
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should attach compiler quick info to identifiers', () => {
+    const result = parseCode('const delays = [100, 200];', 'ts');
+    const delays = result.tokens.find((t) => t.text === 'delays');
+
+    expect(delays?.quickInfo?.display).toBe('const delays: number[]');
+  });
+
+  it('should describe class members with their real signature', () => {
+    const code = `class CustomPromise<T> {
+  then<U>(onFulfilled: (value: T) => U): CustomPromise<U> {
+    return new CustomPromise<U>();
+  }
+}
+new CustomPromise<number>().then((value) => value * 2);`;
+    const result = parseCode(code, 'typescript');
+    const then = result.tokens.filter((t) => t.text === 'then').pop();
+
+    expect(then?.quickInfo?.kind).toBe('method');
+    expect(then?.quickInfo?.display).toBe(
+      '(method) CustomPromise<number>.then<number>(onFulfilled: (value: number) => number): CustomPromise<number>'
+    );
+  });
+
+  it('should attach quick info to JavaScript identifiers', () => {
+    const result = parseCode('const retries = 3;', 'javascript');
+    const retries = result.tokens.find((t) => t.text === 'retries');
+
+    expect(retries?.quickInfo?.display).toBe('const retries: 3');
+  });
+});
+
+describe('TypeScript warnings', () => {
+  it('should warn about floating promises only', () => {
+    const result = parseCode(
+      `const load = async () => 1;
+load();
+load().then(() => {});
+load().catch(() => {});
+load().then(() => {}, () => {});
+void load();`,
+      'ts'
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(texts(result.warnings ?? [])).toEqual(['load', 'then']);
+    expect(result.warnings?.[0].warning).toContain('neither awaited');
+  });
+
+  it('should warn about deprecated APIs', () => {
+    const result = parseCode(
+      '/** @deprecated Use next */\nfunction prev() {}\nprev();',
+      'ts'
+    );
+
+    expect(result.warnings?.map((w) => w.warning)).toEqual([
+      "The signature '(): void' of 'prev' is deprecated.",
+    ]);
+  });
+
+  it('should not warn about unused declarations', () => {
+    const result = parseCode('function unused(value: number) {}', 'ts');
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual([]);
+  });
+});
+
+describe('Preview groups', () => {
+  const classFile = {
+    fileName: 'promise.ts',
+    code: `export class CustomPromise<T> {
+  constructor(public value: T) {}
+}`,
+  };
+
+  it('should resolve imports between blocks in a group', () => {
+    const usage = {
+      fileName: 'usage.ts',
+      code: `import { CustomPromise } from './promise';
+const promise = new CustomPromise('done');`,
+    };
+    const result = parseCode(usage.code, 'ts', {
+      fileName: usage.fileName,
+      group: { id: 'page.md#imports', files: [classFile, usage] },
+    });
+    const promise = result.tokens.find((t) => t.text === 'promise');
+
+    expect(result.errors).toEqual([]);
+    expect(promise?.quickInfo?.display).toBe(
+      'const promise: CustomPromise<string>'
+    );
+  });
+
+  it('should share top-level declarations between script blocks', () => {
+    const files = [
+      { fileName: 'block-1.ts', code: 'class Queue { size = 0; }' },
+      { fileName: 'block-2.ts', code: 'const queue = new Queue();' },
+    ];
+    const result = parseCode(files[1].code, 'ts', {
+      fileName: 'block-2.ts',
+      group: { id: 'page.md#scripts', files },
+    });
+
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should map diagnostics back to the block that caused them', () => {
+    const files = [
+      classFile,
+      { fileName: 'broken.ts', code: "const count: number = 'one';" },
+    ];
+    const context = (fileName: string) => ({
+      fileName,
+      group: { id: 'page.md#diagnostics', files },
+    });
+
+    expect(
+      parseCode(files[0].code, 'ts', context('promise.ts')).errors
+    ).toEqual([]);
+    expect(
+      parseCode(files[1].code, 'ts', context('broken.ts')).errors?.[0].text
+    ).toBe('count');
+  });
+});
+
+describe('Parse cache', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'parse-cache-'));
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('should serve unchanged blocks from disk', () => {
+    const parse = vi.fn(parseCode);
+    const code = 'const cached: number = 1;';
+
+    const first = createParseCache(dir, parse);
+    expect(first.parse(code, 'ts').tokens.length).toBeGreaterThan(0);
+    expect(first.getStats()).toEqual({ hits: 0, misses: 1 });
+
+    // A new cache over the same directory, as in the next build
+    const second = createParseCache(dir, parse);
+    expect(second.parse(code, 'typescript')).toEqual(first.parse(code, 'ts'));
+    expect(second.getStats()).toEqual({ hits: 1, misses: 0 });
+    expect(parse).toHaveBeenCalledTimes(1);
+    expect(readdirSync(dir)).toHaveLength(1);
+  });
+
+  it('should prune entries no block used', () => {
+    const pruneDir = mkdtempSync(join(tmpdir(), 'parse-cache-'));
+    const previous = createParseCache(pruneDir, parseCode);
+    previous.parse('const kept = 1;', 'ts');
+    previous.parse('const edited = 1;', 'ts');
+
+    const next = createParseCache(pruneDir, parseCode);
+    next.parse('const kept = 1;', 'ts');
+    next.parse('const edited = 2;', 'ts');
+
+    expect(next.prune()).toBe(1);
+    expect(readdirSync(pruneDir).sort()).toEqual(
+      [
+        `${getParseCacheKey('const kept = 1;', 'ts')}.json`,
+        `${getParseCacheKey('const edited = 2;', 'ts')}.json`,
+      ].sort()
+    );
+    rmSync(pruneDir, { recursive: true, force: true });
+  });
+
+  it('should key entries by language, code and group files', () => {
+    const group = {
+      id: 'page.md#demo',
+      files: [{ fileName: 'a.ts', code: 'export const a = 1;' }],
+    };
+    const key = getParseCacheKey('a;', 'ts', { fileName: 'b.ts', group });
+
+    expect(
+      getParseCacheKey('a;', 'typescript', { fileName: 'b.ts', group })
+    ).toBe(key);
+    expect(getParseCacheKey('a;', 'js')).not.toBe(getParseCacheKey('a;', 'ts'));
+    expect(
+      getParseCacheKey('a;', 'ts', {
+        fileName: 'b.ts',
+        group: { ...group, files: [{ fileName: 'a.ts', code: 'export {};' }] },
+      })
+    ).not.toBe(key);
+  });
+});
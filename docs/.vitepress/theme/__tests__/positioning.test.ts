@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computePlacement,
+  getClippingBoundary,
+  type Box,
+} from '../tooltips/positioning';
+
+const viewport: Box = { left: 0, top: 0, right: 800, bottom: 600 };
+const size = { width: 200, height: 100 };
+
+function box(left: number, top: number, width: number, height: number): Box {
+  return { left, top, right: left + width, bottom: top + height };
+}
+
+describe('Tooltip positioning', () => {
+  it('should place the tooltip on the preferred side', () => {
+    const trigger = box(350, 300, 100, 20);
+
+    expect(
+      computePlacement(trigger, size, {
+        position: 'top',
+        offset: 8,
+        boundary: viewport,
+      })
+    ).toEqual({
+      side: 'top',
+      box: { left: 300, top: 192, right: 500, bottom: 292 },
+      arrowOffset: 100,
+      triggerHidden: false,
+    });
+
+    const left = computePlacement(trigger, size, {
+      position: 'left',
+      offset: 8,
+      boundary: viewport,
+    });
+    expect(left.side).toBe('left');
+    expect(left.box).toEqual({ left: 142, top: 260, right: 342, bottom: 360 });
+  });
+
+  it('should flip to the opposite side on overflow', () => {
+    const placement = computePlacement(box(350, 40, 100, 20), size, {
+      position: 'top',
+      offset: 8,
+      boundary: viewport,
+    });
+
+    expect(placement.side).toBe('bottom');
+    expect(placement.box.top).toBe(68);
+  });
+
+  it('should fall back to a perpendicular side when both overflow', () => {
+    const placement = computePlacement(box(0, 60, 100, 20), size, {
+      position: 'top',
+      offset: 8,
+      boundary: { ...viewport, bottom: 150 },
+    });
+
+    expect(placement.side).toBe('right');
+  });
+
+  it('should shift along the cross axis and keep the arrow on the trigger', () => {
+    const placement = computePlacement(box(10, 300, 20, 20), size, {
+      position: 'bottom',
+      offset: 8,
+      boundary: viewport,
+    });
+
+    expect(placement.box.left).toBe(8);
+    // Trigger center at 20, tooltip starts at 8
+    expect(placement.arrowOffset).toBe(14);
+
+    const right = computePlacement(box(780, 300, 20, 20), size, {
+      position: 'bottom',
+      offset: 8,
+      boundary: viewport,
+    });
+    expect(right.box.right).toBe(792);
+    expect(right.arrowOffset).toBe(186);
+  });
+
+  it('should clip the trigger to scroll containers', () => {
+    const container = document.createElement('div');
+    container.style.overflow = 'auto';
+    container.getBoundingClientRect = () => new DOMRect(100, 50, 300, 200);
+    const trigger = container.appendChild(document.createElement('span'));
+    document.body.appendChild(container);
+
+    const clip = getClippingBoundary(trigger);
+    expect(clip).toEqual({ left: 100, top: 50, right: 400, bottom: 250 });
+
+    expect(
+      computePlacement(box(150, 280, 20, 10), size, {
+        position: 'top',
+        offset: 8,
+        boundary: viewport,
+        clip,
+      }).triggerHidden
+    ).toBe(true);
+
+    container.remove();
+  });
+
+  it('should place the tooltip past the scroll container of its trigger', () => {
+    // A one-line code block scrolling horizontally, below the top of the page
+    const clip = box(100, 200, 600, 40);
+    const placement = computePlacement(box(150, 210, 100, 20), size, {
+      position: 'top',
+      offset: 8,
+      boundary: viewport,
+      clip,
+    });
+
+    expect(placement.side).toBe('top');
+    expect(placement.box).toEqual({
+      left: 100,
+      top: 102,
+      right: 300,
+      bottom: 202,
+    });
+    expect(placement.triggerHidden).toBe(false);
+  });
+});
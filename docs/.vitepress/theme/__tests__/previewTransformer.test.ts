@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  codePreviewTransformer,
+  highlightWithTooltips,
+  type TooltipRange,
+} from '../markdown/previewTransformer';
+
+const transformer = codePreviewTransformer();
+
+const context = {
+  addClassToHast(hast: any, className: string | string[]) {
+    hast.properties.class = [hast.properties.class, className]
+      .flat()
+      .filter(Boolean)
+      .join(' ');
+  },
+};
+
+// Run the token and span hooks the way Shiki does for `lines` of [offset, text]
+function render(lines: [number, string][][], ranges: TooltipRange[]) {
+  return highlightWithTooltips(ranges, () => {
+    const tokens = lines.map((line) =>
+      line.map(([offset, content]) => ({ offset, content }))
+    );
+    const split = (transformer.tokens as any).call(context, tokens) ?? tokens;
+
+    return split.flatMap((line: any[], index: number) =>
+      line.map((token: any) => {
+        const hast = { properties: {} as Record<string, any> };
+        (transformer.span as any).call(context, hast, index, 0, {}, token);
+        return { text: token.content, ...hast.properties };
+      })
+    );
+  });
+}
+
+describe('Preview transformer', () => {
+  it('should decorate only the exact parser range', () => {
+    // `const value = valueOf;`
+    const spans = render(
+      [
+        [
+          [0, 'const'],
+          [5, ' value'],
+          [11, ' ='],
+          [13, ' valueOf;'],
+        ],
+      ],
+      [{ start: 6, end: 11, section: { severity: 'info', text: 'value' } }]
+    );
+
+    expect(spans.filter((span: any) => span.class)).toEqual([
+      expect.objectContaining({ text: 'value', class: 'tooltip-trigger' }),
+    ]);
+    expect(spans.map((span: any) => span.text).join('')).toBe(
+      'const value = valueOf;'
+    );
+  });
+
+  it('should decorate ranges spanning several spans and lines', () => {
+    // `foo(1,\n  2);` with an error on `foo(1,\n  2)`
+    const spans = render(
+      [
+        [
+          [0, 'foo'],
+          [3, '(1,'],
+        ],
+        [
+          [7, '  2'],
+          [10, ');'],
+        ],
+      ],
+      [{ start: 0, end: 11, section: { severity: 'error', text: 'Oops' } }]
+    );
+    const decorated = spans.filter((span: any) => span.class);
+
+    expect(decorated.map((span: any) => span.text)).toEqual([
+      'foo',
+      '(1,',
+      '  2',
+      ')',
+    ]);
+    expect(decorated[0].class).toBe('tooltip-trigger has-error');
+    expect(decorated[0]['data-tooltip']).toBe(decorated[3]['data-tooltip']);
+    // One tab stop per block; arrow keys reach the rest
+    expect(decorated.map((span: any) => span.tabindex)).toEqual([
+      0, -1, -1, -1,
+    ]);
+  });
+
+  it('should combine overlapping ranges with errors first', () => {
+    const [span] = render(
+      [[[0, 'id']]],
+      [
+        { start: 0, end: 2, section: { severity: 'info', text: 'const id' } },
+        { start: 0, end: 2, section: { severity: 'error', text: 'Oops' } },
+      ]
+    );
+
+    expect(JSON.parse(span['data-tooltip']).sections).toEqual([
+      { severity: 'error', text: 'Oops' },
+      { severity: 'info', text: 'const id' },
+    ]);
+  });
+
+  it('should leave blocks without ranges untouched', () => {
+    const spans = render([[[0, 'const x = 1;']]], []);
+
+    expect(spans).toEqual([{ text: 'const x = 1;' }]);
+  });
+});
@@ -0,0 +1,252 @@
+import { flushPromises, mount } from '@vue/test-utils';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildSnippet,
+  createSearcher,
+  createSymbolSearcher,
+  loadSearchIndex,
+  parseSymbolQuery,
+  type SearchDocument,
+  type SymbolDefinition,
+} from '../search/searchIndex';
+
+const go = vi.fn();
+
+vi.mock('vitepress', () => ({
+  inBrowser: true,
+  useRouter: () => ({ go }),
+}));
+
+const documents: SearchDocument[] = [
+  {
+    title: 'Debounce',
+    path: '/web-patterns/patterns/debounce',
+    content: 'Debounce delays a call until the input has settled.',
+    symbols: [],
+  },
+  {
+    title: 'Debounce',
+    path: '/web-patterns/patterns/debounce',
+    heading: 'Cancellation',
+    anchor: 'cancellation',
+    level: 2,
+    content: 'Pending calls can be dropped.',
+    symbols: [{ name: 'PendingCall', kind: 'interface' }],
+  },
+  {
+    title: 'Throttle',
+    path: '/web-patterns/patterns/throttle',
+    heading: 'Trailing Calls',
+    anchor: 'trailing-calls',
+    level: 2,
+    content: 'Throttle limits how often a callback runs, unlike debounce.',
+    symbols: [{ name: 'createThrottle', kind: 'function' }],
+  },
+];
+
+const definitions: SymbolDefinition[] = [
+  {
+    name: 'withRetry',
+    kind: 'function',
+    signature: 'function withRetry<T>(operation: () => Promise<T>): Promise<T>',
+    title: 'Promises',
+    path: '/web-patterns/async/promises',
+    heading: 'Retries',
+    anchor: 'code-116',
+  },
+  {
+    name: 'withRetry',
+    kind: 'function',
+    signature: 'async function withRetry<T>(attempts: number): Promise<T>',
+    title: 'Promise.any',
+    path: '/web-patterns/implementations/promise-any',
+    anchor: 'code-120',
+  },
+  {
+    name: 'ThrottledQueue',
+    kind: 'class',
+    signature: 'class ThrottledQueue<T>',
+    title: 'Throttling',
+    path: '/web-patterns/advanced/throttling',
+    anchor: 'code-303',
+  },
+];
+
+function stubFetch(body: unknown, ok = true) {
+  const fetch = vi.fn(async () => ({
+    ok,
+    status: ok ? 200 : 404,
+    json: async () => body,
+  }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+describe('search', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    go.mockClear();
+  });
+
+  it('should rank title matches first', async () => {
+    const search = await createSearcher(documents);
+    const results = search('debounce');
+
+    expect(results.map((result) => result.link)).toEqual([
+      '/web-patterns/patterns/debounce',
+      '/web-patterns/patterns/throttle#trailing-calls',
+    ]);
+    expect(results[0].score).toBeLessThan(results[1].score);
+  });
+
+  it('should find symbols declared in code', async () => {
+    const search = await createSearcher(documents);
+    const [result] = search('createThrottle');
+
+    expect(result.link).toBe('/web-patterns/patterns/throttle#trailing-calls');
+    expect(result.snippet).toEqual([
+      { text: 'function ', highlight: false },
+      { text: 'createThrottle', highlight: true },
+    ]);
+  });
+
+  it('should tolerate typos', async () => {
+    const search = await createSearcher(documents);
+    expect(search('throtle')[0]?.title).toBe('Throttle');
+  });
+
+  it('should deep link to the matching section', async () => {
+    const search = await createSearcher(documents);
+    const [result] = search('cancellation');
+
+    expect(result.link).toBe('/web-patterns/patterns/debounce#cancellation');
+    expect(result.heading).toBe('Cancellation');
+  });
+
+  it('should return nothing for a blank query', async () => {
+    const search = await createSearcher(documents);
+    expect(search('   ')).toEqual([]);
+  });
+
+  it('should highlight matches in the snippet', () => {
+    const text = 'Throttle limits how often a callback runs.';
+    const parts = buildSnippet(text, [[20, 24]]);
+
+    expect(parts).toEqual([
+      { text: 'Throttle limits how ', highlight: false },
+      { text: 'often', highlight: true },
+      { text: ' a callback runs.', highlight: false },
+    ]);
+  });
+
+  it('should cut long text around the longest match', () => {
+    const text = `${'a'.repeat(100)}match${'b'.repeat(300)}`;
+    const parts = buildSnippet(text, [[100, 104]], 10);
+
+    expect(parts[0]).toEqual({ text: `…${'a'.repeat(10)}`, highlight: false });
+    expect(parts[1]).toEqual({ text: 'match', highlight: true });
+    expect(parts[2]).toEqual({ text: `${'b'.repeat(20)}…`, highlight: false });
+  });
+
+  it('should recognize symbol queries by their prefix', () => {
+    expect(parseSymbolQuery('#withRetry')).toBe('withRetry');
+    expect(parseSymbolQuery(' @ Throttled')).toBe('Throttled');
+    expect(parseSymbolQuery('#')).toBe('');
+    expect(parseSymbolQuery('retry')).toBeNull();
+  });
+
+  it('should list every definition of a symbol', async () => {
+    const search = await createSymbolSearcher(definitions);
+    const results = search('withRetry');
+
+    expect(results.map(({ link }) => link)).toEqual([
+      '/web-patterns/async/promises#code-116',
+      '/web-patterns/implementations/promise-any#code-120',
+    ]);
+    expect(results[1]).toMatchObject({
+      symbol: { name: 'withRetry', kind: 'function' },
+      snippet: [
+        { text: 'async function ', highlight: false },
+        { text: 'withRetry', highlight: true },
+        { text: '<T>(attempts: number): Promise<T>', highlight: false },
+      ],
+    });
+  });
+
+  it('should fetch the index once and retry after a failure', async () => {
+    const failing = stubFetch(null, false);
+    await expect(loadSearchIndex('/failing.json')).rejects.toThrow('404');
+    await expect(loadSearchIndex('/failing.json')).rejects.toThrow('404');
+    expect(failing).toHaveBeenCalledTimes(2);
+
+    const fetch = stubFetch(documents);
+    await expect(loadSearchIndex('/index.json')).resolves.toEqual(documents);
+    await loadSearchIndex('/index.json');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should navigate the results with the keyboard', async () => {
+    const fetch = stubFetch(documents);
+    const { default: CustomSearch } = await import(
+      '../components/CustomSearch.vue'
+    );
+    const wrapper = mount(CustomSearch, { attachTo: document.body });
+    const input = wrapper.get('input');
+
+    await input.setValue('debounce');
+    await flushPromises();
+    await vi.dynamicImportSettled();
+    await flushPromises();
+
+    expect(fetch).toHaveBeenCalledWith(
+      '/web-patterns/assets/search-index.1a2b3c4d.json'
+    );
+    const options = wrapper.findAll('[role="option"]');
+    expect(options).toHaveLength(2);
+    expect(options[1].text()).toContain('Trailing Calls');
+    expect(options[0].attributes('aria-selected')).toBe('true');
+    expect(wrapper.find('mark').exists()).toBe(true);
+
+    await input.trigger('keydown', { key: 'ArrowDown' });
+    expect(input.attributes('aria-activedescendant')).toBe(
+      'localsearch-result-1'
+    );
+
+    await input.trigger('keydown', { key: 'Enter' });
+    expect(go).toHaveBeenCalledWith(
+      '/web-patterns/patterns/throttle#trailing-calls'
+    );
+    expect(wrapper.find('[role="listbox"]').exists()).toBe(false);
+
+    wrapper.unmount();
+  });
+
+  it('should search symbols after a prefix', async () => {
+    const fetch = stubFetch(definitions);
+    const { default: CustomSearch } = await import(
+      '../components/CustomSearch.vue'
+    );
+    const wrapper = mount(CustomSearch, { attachTo: document.body });
+    const input = wrapper.get('input');
+
+    await input.setValue('#Throttled');
+    await flushPromises();
+    await vi.dynamicImportSettled();
+    await flushPromises();
+
+    expect(fetch).toHaveBeenCalledWith(
+      '/web-patterns/assets/symbol-index.5e6f7a8b.json'
+    );
+    const options = wrapper.findAll('[role="option"]');
+    expect(options).toHaveLength(1);
+    expect(options[0].get('code').text()).toBe('ThrottledQueue');
+    expect(options[0].text()).toContain('class');
+
+    await input.trigger('keydown', { key: 'Enter' });
+    expect(go).toHaveBeenCalledWith(
+      '/web-patterns/advanced/throttling#code-303'
+    );
+
+    wrapper.unmount();
+  });
+});
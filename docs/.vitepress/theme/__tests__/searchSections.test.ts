@@ -0,0 +1,185 @@
+import type { MarkdownRenderer } from 'vitepress';
+import { describe, expect, it } from 'vitest';
+import {
+  collectDefinitions,
+  extractDeclarations,
+  extractSymbols,
+  splitSections,
+} from '../../utils/searchSections';
+import { slugify } from '../../utils/markdownHeadings';
+import { fenceAnchorsPlugin } from '../markdown/fenceAnchors';
+
+const page = { title: 'Parallel Tasks', path: '/patterns/tasks-parallel' };
+
+describe('search sections', () => {
+  it('should extract top-level classes, functions and interfaces', () => {
+    const symbols = extractSymbols(`
+      export interface PoolOptions { size: number }
+      class ResourcePool {
+        acquire() {}
+      }
+      async function executeWithPool<T>(tasks: T[]) {}
+      function executeWithPool(tasks: unknown) {}
+      const retry = async () => {};
+      const limit = 5;
+    `);
+
+    expect(symbols).toEqual([
+      { name: 'PoolOptions', kind: 'interface' },
+      { name: 'ResourcePool', kind: 'class' },
+      { name: 'executeWithPool', kind: 'function' },
+      { name: 'retry', kind: 'function' },
+    ]);
+  });
+
+  it('should slugify headings like VitePress', () => {
+    expect(slugify('Promise.all() & Friends')).toBe('promise-all-friends');
+    expect(slugify('Tab\there, bell\u0007 and café')).toBe(
+      'tabhere-bell-and-cafe'
+    );
+    expect(slugify('2. Retry')).toBe('_2-retry');
+  });
+
+  it('should split a page into sections by heading', () => {
+    const sections = splitSections(
+      [
+        '# Parallel Tasks',
+        '',
+        'Run many tasks at once.',
+        '',
+        '## Advanced Usage',
+        '',
+        'Limit the number of [running tasks](/guide).',
+        '',
+        '```typescript',
+        '# not a heading',
+        'async function executeWithPool() {}',
+        '```',
+        '',
+        '### Errors',
+        '',
+        '::: tip',
+        'Failures reject the pool.',
+        ':::',
+      ].join('\n'),
+      page
+    );
+
+    expect(sections).toEqual([
+      {
+        ...page,
+        content: 'Run many tasks at once.',
+        symbols: [],
+      },
+      {
+        ...page,
+        heading: 'Advanced Usage',
+        anchor: 'advanced-usage',
+        level: 2,
+        content: 'Limit the number of running tasks.',
+        symbols: [{ name: 'executeWithPool', kind: 'function' }],
+      },
+      {
+        ...page,
+        heading: 'Errors',
+        anchor: 'errors',
+        level: 3,
+        content: 'Failures reject the pool.',
+        symbols: [],
+      },
+    ]);
+  });
+
+  it('should only read symbols from script fences', () => {
+    const [section] = splitSections(
+      '## Setup\n\n```bash\nfunction deploy() {}\n```\n',
+      page
+    );
+    expect(section.symbols).toEqual([]);
+  });
+
+  it('should drop an empty intro', () => {
+    const sections = splitSections('# Title\n\n## Usage\n\nText', page);
+    expect(sections.map(({ heading }) => heading)).toEqual(['Usage']);
+  });
+
+  it('should describe declarations by their signature', () => {
+    const declarations = extractDeclarations(`
+      async function withRetry<T>(
+        operation: () => Promise<T>,
+        retries = 3
+      ): Promise<T> {}
+      abstract class Queue<T> extends Base implements Iterable<T> {}
+      const throttle = <T>(fn: (value: T) => void, wait: number) => {};
+      interface Options extends Partial<Base> { size: number }
+      type Settled<T> = { status: 'fulfilled'; value: T };
+      const enum Status { Idle }
+    `);
+
+    expect(
+      declarations.map(({ kind, signature }) => [kind, signature])
+    ).toEqual([
+      [
+        'function',
+        'async function withRetry<T>(operation: () => Promise<T>, retries = 3): Promise<T>',
+      ],
+      ['class', 'abstract class Queue<T> extends Base implements Iterable<T>'],
+      [
+        'function',
+        'function throttle<T>(fn: (value: T) => void, wait: number)',
+      ],
+      ['interface', 'interface Options extends Partial<Base>'],
+      ['type', "type Settled<T> = { status: 'fulfilled'; value: T }"],
+      ['enum', 'const enum Status'],
+    ]);
+  });
+
+  it('should link every definition to its fence', () => {
+    const markdown = [
+      '# Retry',
+      '',
+      '## Basic',
+      '',
+      '```ts',
+      'function withRetry() {}',
+      '```',
+      '',
+      '## Advanced',
+      '',
+      '```typescript',
+      'class RetryBudget {}',
+      'function withRetry(budget: RetryBudget) {}',
+      '```',
+    ].join('\n');
+
+    const definitions = collectDefinitions(markdown, page);
+
+    expect(
+      definitions.map(({ name, heading, anchor }) => [name, heading, anchor])
+    ).toEqual([
+      ['withRetry', 'Basic', 'code-5'],
+      ['RetryBudget', 'Advanced', 'code-11'],
+      ['withRetry', 'Advanced', 'code-11'],
+    ]);
+  });
+
+  it('should give rendered fences the anchor of their opening line', () => {
+    const md = {
+      renderer: {
+        rules: { fence: () => '<div class="language-ts"><pre></pre></div>' },
+      },
+    } as unknown as MarkdownRenderer;
+    fenceAnchorsPlugin(md);
+
+    const html = md.renderer.rules.fence!(
+      [{ map: [10, 14] }] as any,
+      0,
+      {} as any,
+      {},
+      {} as any
+    );
+    expect(html).toBe(
+      '<div id="code-11" class="language-ts"><pre></pre></div>'
+    );
+  });
+});
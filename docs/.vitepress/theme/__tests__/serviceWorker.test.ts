@@ -0,0 +1,256 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OfflineStatus, PrecacheManifest } from '../offline/protocol';
+
+const scope = 'https://example.com/web-patterns/';
+const manifest: PrecacheManifest = {
+  version: 'v2',
+  shell: ['/web-patterns/', '/web-patterns/404.html'],
+  pages: Array.from({ length: 6 }, (_, i) => ({
+    url: `/web-patterns/page-${i}`,
+    chunk: `/web-patterns/assets/page-${i}.md.A${i}.js`,
+  })),
+};
+const DOWNLOAD_REQUESTED = `${scope}__offline-download__`;
+
+// `CacheStorage` keeping every cache in a map of absolute URLs
+function createCaches() {
+  const stores = new Map<string, Map<string, Response>>();
+  const keyOf = (request: RequestInfo | URL, ignoreSearch = false) => {
+    const url = new URL(
+      request instanceof Request ? request.url : request,
+      scope
+    );
+    if (ignoreSearch) url.search = '';
+    return url.href;
+  };
+
+  function open(name: string) {
+    if (!stores.has(name)) stores.set(name, new Map());
+    const store = stores.get(name)!;
+    const cache = {
+      async match(request: RequestInfo, options?: CacheQueryOptions) {
+        const key = keyOf(request, options?.ignoreSearch);
+        const match = [...store].find(
+          ([url]) => keyOf(url, options?.ignoreSearch) === key
+        );
+        return match?.[1].clone();
+      },
+      async put(request: RequestInfo, response: Response) {
+        store.set(keyOf(request), response);
+      },
+      async add(request: RequestInfo) {
+        const response = await fetch(request);
+        if (!response.ok) throw new TypeError('Bad response');
+        store.set(keyOf(request), response);
+      },
+      async delete(request: RequestInfo) {
+        return store.delete(keyOf(request));
+      },
+    };
+    return cache;
+  }
+
+  return {
+    open: async (name: string) => open(name),
+    keys: async () => [...stores.keys()],
+    delete: async (name: string) => stores.delete(name),
+    async match(request: RequestInfo, options?: MultiCacheQueryOptions) {
+      const names = options?.cacheName
+        ? [options.cacheName]
+        : [...stores.keys()];
+      for (const name of names.filter((name) => stores.has(name))) {
+        const response = await open(name).match(request, options);
+        if (response) return response;
+      }
+      return undefined;
+    },
+  };
+}
+
+describe('Service worker', () => {
+  let caches: ReturnType<typeof createCaches>;
+  let listeners: Record<string, (event: unknown) => void>;
+  const broadcast = vi.fn();
+  const fetch = vi.fn();
+
+  // Runs a fresh copy of the worker against the stubbed globals
+  async function startWorker() {
+    vi.resetModules();
+    await import('../offline/serviceWorker');
+  }
+
+  // Dispatches an event and resolves with what it waited for or responded
+  function dispatch(type: string, init: object = {}): Promise<unknown> {
+    let result: Promise<unknown> = Promise.resolve();
+    listeners[type]({
+      ...init,
+      waitUntil: (promise: Promise<unknown>) => (result = promise),
+      respondWith: (promise: Promise<unknown>) => (result = promise),
+    });
+    return result;
+  }
+
+  function request(url: string, mode: RequestMode = 'no-cors') {
+    return { url: new URL(url, scope).href, method: 'GET', mode };
+  }
+
+  async function getStatus() {
+    const postMessage = vi.fn();
+    await dispatch('message', {
+      data: { type: 'get-offline-status' },
+      source: { postMessage },
+    });
+    return postMessage.mock.calls[0][0] as OfflineStatus;
+  }
+
+  beforeEach(() => {
+    caches = createCaches();
+    listeners = {};
+    vi.stubGlobal('PRECACHE', manifest);
+    vi.stubGlobal('caches', caches);
+    vi.stubGlobal('fetch', fetch);
+    vi.stubGlobal('self', {
+      registration: { scope },
+      addEventListener: (type: string, listener: (event: unknown) => void) => {
+        listeners[type] = listener;
+      },
+      skipWaiting: async () => {},
+      clients: {
+        claim: async () => {},
+        matchAll: async () => [{ postMessage: broadcast }],
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    fetch.mockReset();
+    broadcast.mockClear();
+  });
+
+  it('should fetch pages first and fall back to the 404 page offline', async () => {
+    await startWorker();
+    await (
+      await caches.open('web-patterns-shell-v2')
+    ).put(`${scope}404.html`, new Response('Not found'));
+    fetch.mockResolvedValueOnce(new Response('Fresh'));
+
+    const online = (await dispatch('fetch', {
+      request: request('page-1?ref=home', 'navigate'),
+    })) as Response;
+    expect(await online.text()).toBe('Fresh');
+
+    fetch.mockRejectedValue(new TypeError('Offline'));
+    const cached = (await dispatch('fetch', {
+      request: request('page-1', 'navigate'),
+    })) as Response;
+    expect(await cached.text()).toBe('Fresh');
+
+    const missing = (await dispatch('fetch', {
+      request: request('page-9', 'navigate'),
+    })) as Response;
+    expect(await missing.text()).toBe('Not found');
+  });
+
+  it('should answer lean chunks with the downloaded full chunk', async () => {
+    await startWorker();
+    await (
+      await caches.open('web-patterns-pages-v2')
+    ).put(`${scope}assets/page-1.md.A1.js`, new Response('Full'));
+    fetch.mockRejectedValue(new TypeError('Offline'));
+
+    const response = (await dispatch('fetch', {
+      request: request('assets/page-1.md.A1.lean.js?t=1'),
+    })) as Response;
+    expect(await response.text()).toBe('Full');
+
+    await expect(
+      dispatch('fetch', { request: request('assets/page-2.md.A2.lean.js') })
+    ).rejects.toThrow('Offline');
+  });
+
+  it('should delete the caches of older versions on activation', async () => {
+    await (
+      await caches.open('web-patterns-shell-v1')
+    ).put(`${scope}404.html`, new Response());
+    await (
+      await caches.open('web-patterns-pages-v1')
+    ).put(DOWNLOAD_REQUESTED, new Response());
+    await caches.open('other-site');
+    await startWorker();
+
+    await dispatch('activate');
+
+    expect(await caches.keys()).toEqual([
+      'other-site',
+      'web-patterns-pages-v2',
+    ]);
+    // The download asked for by the older version carries over
+    expect(
+      await caches.match(DOWNLOAD_REQUESTED, {
+        cacheName: 'web-patterns-pages-v2',
+      })
+    ).toBeDefined();
+  });
+
+  it('should download pages a few at a time', async () => {
+    let pending = 0;
+    let maxPending = 0;
+    fetch.mockImplementation(async (url: string) => {
+      if (!url.includes('/assets/')) {
+        maxPending = Math.max(maxPending, ++pending);
+      }
+      await new Promise((resolve) => setTimeout(resolve));
+      if (!url.includes('/assets/')) pending--;
+      return new Response(url);
+    });
+    await startWorker();
+
+    await dispatch('message', { data: { type: 'download-pages' } });
+
+    expect(maxPending).toBe(4);
+    expect(fetch).toHaveBeenCalledTimes(12);
+    expect(broadcast).toHaveBeenLastCalledWith({
+      type: 'offline-status',
+      downloaded: 6,
+      total: 6,
+      downloading: false,
+      failed: false,
+    });
+  });
+
+  it('should resume interrupted downloads', async () => {
+    await (
+      await caches.open('web-patterns-pages-v2')
+    ).put(DOWNLOAD_REQUESTED, new Response());
+    fetch.mockImplementation(async (url: string) => new Response(url));
+    await startWorker();
+
+    expect((await getStatus()).downloaded).toBe(0);
+    expect(fetch).toHaveBeenCalledTimes(12);
+  });
+
+  it('should report failed downloads without retrying them', async () => {
+    fetch.mockImplementation(async (url: string) =>
+      url.endsWith('page-2') ? Response.error() : new Response(url)
+    );
+    await startWorker();
+
+    await dispatch('message', { data: { type: 'download-pages' } });
+
+    expect(broadcast).toHaveBeenLastCalledWith(
+      expect.objectContaining({ downloading: false, failed: true })
+    );
+    expect(broadcast.mock.lastCall![0].downloaded).toBeLessThan(6);
+
+    // Pages ask for the status on every visit
+    fetch.mockClear();
+    expect(await getStatus()).toMatchObject({ failed: true });
+    expect(fetch).not.toHaveBeenCalled();
+
+    // Until the next version of the worker
+    await startWorker();
+    expect(await getStatus()).toMatchObject({ failed: false });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Router } from 'vitepress';
+import { getTooltipManager, setupTooltips } from '../setupTooltips';
+
+describe('setupTooltips', () => {
+  function renderPage(content: string) {
+    document.body.innerHTML = `<span class="tooltip-trigger" data-tooltip="${content}"></span>`;
+    return document.querySelector<HTMLElement>('.tooltip-trigger')!;
+  }
+
+  afterEach(() => {
+    getTooltipManager().destroy();
+    document.body.innerHTML = '';
+    sessionStorage.clear();
+  });
+
+  it('should tear down and restart the tooltips around route changes', async () => {
+    const onAfterRouteChanged = vi.fn();
+    const router = { onAfterRouteChanged } as unknown as Router;
+    const trigger = renderPage('first');
+
+    setupTooltips(router);
+    const manager = getTooltipManager();
+    manager.setTriggerPinned(trigger, true);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(manager.getState(trigger)).toBe('shown');
+
+    await router.onBeforeRouteChange!('/next');
+    expect(manager.isStarted).toBe(false);
+    expect(manager.getOpenTriggers()).toEqual([]);
+    expect(document.querySelector('.tooltip-portal')).toBeNull();
+
+    const next = renderPage('second');
+    await router.onAfterRouteChanged!('/next');
+    expect(onAfterRouteChanged).toHaveBeenCalledWith('/next');
+    expect(manager.isStarted).toBe(true);
+    expect(document.querySelectorAll('.tooltip-portal')).toHaveLength(1);
+
+    next.dispatchEvent(
+      new PointerEvent('pointerover', { bubbles: true, pointerType: 'mouse' })
+    );
+    expect(manager.getState(next)).toBe('showing');
+  });
+
+  it('should let earlier hooks cancel the route change', async () => {
+    const router = {
+      onBeforeRouteChange: () => false,
+    } as unknown as Router;
+
+    setupTooltips(router);
+    expect(await router.onBeforeRouteChange!('/next')).toBe(false);
+    expect(getTooltipManager().isStarted).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  createLocalStorageBackend,
+  exportTooltipAnalytics,
+  recordTooltipAnalytics,
+  summarizeTooltipAnalytics,
+  type TooltipAnalyticsRecord,
+} from '../tooltips/analytics';
+import { emitTooltipEvent } from '../tooltips/events';
+
+const target = { page: '/guide/', kind: 'default' as const };
+
+function record(
+  type: TooltipAnalyticsRecord['type'],
+  term: string,
+  dwell?: number
+): TooltipAnalyticsRecord {
+  return { ...target, type, term, dwell, at: 0 };
+}
+
+describe('tooltip analytics', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should record tooltip events until stopped', async () => {
+    const backend = createLocalStorageBackend();
+    const stop = recordTooltipAnalytics(backend);
+
+    emitTooltipEvent('tooltip-open', {
+      ...target,
+      term: 'Promise',
+      isClickOpened: false,
+    });
+    emitTooltipEvent('tooltip-close', {
+      ...target,
+      term: 'Promise',
+      dwell: 900,
+    });
+    emitTooltipEvent('tooltip-pin', { ...target, term: 'Promise' });
+    stop();
+    emitTooltipEvent('tooltip-pin', { ...target, term: 'Promise' });
+
+    await Promise.resolve();
+    const records = await backend.getAll();
+    expect(records.map(({ type, dwell }) => [type, dwell])).toEqual([
+      ['open', undefined],
+      ['close', 900],
+      ['pin', undefined],
+    ]);
+
+    await backend.clear();
+    expect(await backend.getAll()).toEqual([]);
+  });
+
+  it('should rank terms per page by opens', () => {
+    const pages = summarizeTooltipAnalytics([
+      record('open', 'string'),
+      record('open', 'Promise'),
+      record('close', 'Promise', 1200),
+      record('open', 'Promise'),
+      record('close', 'Promise', 300),
+      record('pin', 'Promise'),
+      { ...record('open', 'Promise'), page: '/api/' },
+    ]);
+
+    expect(pages.get('/guide/')).toEqual([
+      { term: 'Promise', kind: 'default', opens: 2, pins: 1, dwell: 1500 },
+      { term: 'string', kind: 'default', opens: 1, pins: 0, dwell: 0 },
+    ]);
+    expect(pages.get('/api/')).toHaveLength(1);
+  });
+
+  it('should export records and the summary as JSON', async () => {
+    const backend = createLocalStorageBackend();
+    await backend.record(record('open', 'Promise'));
+
+    const exported = JSON.parse(await exportTooltipAnalytics(backend));
+    expect(exported.records).toHaveLength(1);
+    expect(exported.pages['/guide/'][0]).toMatchObject({
+      term: 'Promise',
+      opens: 1,
+    });
+  });
+});
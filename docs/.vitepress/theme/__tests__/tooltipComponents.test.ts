@@ -0,0 +1,70 @@
+import { flushPromises, mount } from '@vue/test-utils';
+import { defineComponent, h, onUnmounted } from 'vue';
+import { describe, expect, it, vi } from 'vitest';
+import Tooltip from '../components/Tooltip.vue';
+import {
+  createTooltipPayload,
+  encodeTooltipPayload,
+} from '../tooltips/payload';
+import {
+  loadTooltipComponent,
+  registerTooltipComponent,
+} from '../tooltips/components';
+
+function componentTooltip(name: string, props?: Record<string, unknown>) {
+  return encodeTooltipPayload(
+    createTooltipPayload([{ severity: 'info', component: { name, props } }])
+  );
+}
+
+describe('Tooltip components', () => {
+  it('should load registered components lazily', async () => {
+    const Demo = defineComponent({ render: () => h('span') });
+    const loader = vi.fn(async () => ({ default: Demo }));
+
+    registerTooltipComponent('lazy-demo', loader);
+    expect(loader).not.toHaveBeenCalled();
+
+    await expect(loadTooltipComponent('lazy-demo')).resolves.toBe(Demo);
+    await expect(loadTooltipComponent('missing')).rejects.toThrow(
+      'Unknown tooltip component: missing'
+    );
+  });
+
+  it('should render a component with its props and unmount it', async () => {
+    const unmounted = vi.fn();
+    registerTooltipComponent('race', async () =>
+      defineComponent({
+        props: { winner: String },
+        setup(props) {
+          onUnmounted(unmounted);
+          return () => h('span', { class: 'race' }, props.winner);
+        },
+      })
+    );
+
+    const wrapper = mount(Tooltip, {
+      props: { content: componentTooltip('race', { winner: 'fast' }) },
+    });
+    await flushPromises();
+
+    expect(wrapper.find('.message-component .race').text()).toBe('fast');
+
+    wrapper.unmount();
+    expect(unmounted).toHaveBeenCalledTimes(1);
+  });
+
+  it('should show why a component could not be loaded', async () => {
+    const wrapper = mount(Tooltip, {
+      props: { content: componentTooltip('nowhere') },
+      // Vue also warns about the failed loader
+      global: { config: { warnHandler: () => {} } },
+    });
+    await flushPromises();
+
+    expect(wrapper.find('.message-component').text()).toBe(
+      'Unknown tooltip component: nowhere'
+    );
+    wrapper.unmount();
+  });
+});
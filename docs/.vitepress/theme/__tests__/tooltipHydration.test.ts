@@ -0,0 +1,132 @@
+import { mount } from '@vue/test-utils';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { nextTick } from 'vue';
+import TooltipLoader from '../components/TooltipLoader.vue';
+import { emitTooltipEvent, onTooltipEvent } from '../tooltips/events';
+import {
+  hydrateTriggers,
+  type HydrationDeadline,
+  type HydrationScheduler,
+} from '../tooltips/hydration';
+
+// Runs idle callbacks only when the test says so
+function createFakeScheduler() {
+  const queue = new Map<number, (deadline: HydrationDeadline) => void>();
+  let nextId = 1;
+
+  const scheduler: HydrationScheduler = {
+    request(callback) {
+      queue.set(nextId, callback);
+      return nextId++;
+    },
+    cancel(id) {
+      queue.delete(id);
+    },
+  };
+
+  function runIdle(timeRemaining = 50) {
+    const [id, callback] = [...queue.entries()][0];
+    queue.delete(id);
+    callback({ timeRemaining: () => timeRemaining });
+  }
+
+  return {
+    scheduler,
+    runIdle,
+    get pending() {
+      return queue.size;
+    },
+  };
+}
+
+describe('hydrateTriggers', () => {
+  let root: HTMLDivElement;
+  let fake: ReturnType<typeof createFakeScheduler>;
+  const offs: Array<() => void> = [];
+
+  function listen() {
+    const progress = vi.fn();
+    const done = vi.fn();
+    offs.push(
+      onTooltipEvent('hydration-progress', progress),
+      onTooltipEvent('hydration-done', done)
+    );
+    return { progress, done };
+  }
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    root.innerHTML = Array.from(
+      { length: 5 },
+      (_, i) => `<span data-tooltip="tip ${i}">token</span>`
+    ).join('');
+    document.body.appendChild(root);
+    fake = createFakeScheduler();
+  });
+
+  afterEach(() => {
+    offs.splice(0).forEach((off) => off());
+    root.remove();
+  });
+
+  it('should hydrate triggers in idle chunks and report progress', () => {
+    const { progress, done } = listen();
+    root.querySelector('span')!.setAttribute('tabindex', '-1');
+
+    hydrateTriggers(root, { scheduler: fake.scheduler, chunkSize: 2 });
+    expect(root.querySelectorAll('.tooltip-trigger')).toHaveLength(0);
+
+    fake.runIdle();
+    expect(progress).toHaveBeenLastCalledWith({ processed: 2, total: 5 });
+    fake.runIdle();
+    fake.runIdle();
+    expect(progress).toHaveBeenLastCalledWith({ processed: 5, total: 5 });
+    expect(done).toHaveBeenCalledWith({ total: 5 });
+    expect(fake.pending).toBe(0);
+
+    const triggers = root.querySelectorAll<HTMLElement>('.tooltip-trigger');
+    expect(triggers).toHaveLength(5);
+    // Roving tab stops set by the code preview are kept
+    expect([...triggers].map((t) => t.tabIndex)).toEqual([-1, 0, 0, 0, 0]);
+  });
+
+  it('should yield once the idle period is used up', () => {
+    const { progress } = listen();
+    hydrateTriggers(root, { scheduler: fake.scheduler });
+
+    fake.runIdle(0);
+    expect(progress).toHaveBeenLastCalledWith({ processed: 1, total: 5 });
+  });
+
+  it('should skip hydrated triggers and stop when cancelled', () => {
+    const { done } = listen();
+    hydrateTriggers(root, { scheduler: fake.scheduler })();
+    expect(fake.pending).toBe(0);
+
+    root.querySelector('span')!.dataset.tooltipHydrated = '';
+    hydrateTriggers(root, { scheduler: fake.scheduler, chunkSize: 10 });
+    fake.runIdle();
+    expect(done).toHaveBeenCalledWith({ total: 4 });
+  });
+});
+
+describe('TooltipLoader', () => {
+  it('should show only while a hydration pass spans several chunks', async () => {
+    vi.useFakeTimers();
+    const wrapper = mount(TooltipLoader);
+
+    emitTooltipEvent('hydration-progress', { processed: 200, total: 600 });
+    await nextTick();
+    expect(wrapper.classes()).toContain('is-visible');
+    expect(wrapper.text()).toContain('Processing tooltips: 200/600');
+
+    emitTooltipEvent('hydration-done', { total: 600 });
+    vi.advanceTimersByTime(1500);
+    await nextTick();
+    expect(wrapper.classes()).not.toContain('is-visible');
+
+    wrapper.unmount();
+    emitTooltipEvent('hydration-progress', { processed: 1, total: 600 });
+    vi.useRealTimers();
+  });
+});
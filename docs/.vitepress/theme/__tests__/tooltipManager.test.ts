@@ -0,0 +1,673 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  TooltipManager,
+  type TooltipClock,
+  type TooltipRenderer,
+} from '../tooltips/tooltipManager';
+import { onTooltipEvent } from '../tooltips/events';
+
+// A clock that only moves when the test advances it
+function createFakeClock() {
+  let now = 0;
+  let nextId = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const clock: TooltipClock = {
+    now: () => now,
+    setTimeout(callback, delay) {
+      const id = nextId++;
+      timers.set(id, { at: now + delay, callback });
+      return id;
+    },
+    clearTimeout(id) {
+      timers.delete(id);
+    },
+  };
+
+  function advance(ms: number) {
+    const target = now + ms;
+    for (;;) {
+      const due = [...timers.entries()]
+        .filter(([, timer]) => timer.at <= target)
+        .sort(([, a], [, b]) => a.at - b.at)[0];
+      if (!due) break;
+
+      const [id, timer] = due;
+      timers.delete(id);
+      now = timer.at;
+      timer.callback();
+    }
+    now = target;
+  }
+
+  return { clock, advance };
+}
+
+describe('TooltipManager', () => {
+  let root: HTMLDivElement;
+  let trigger: HTMLSpanElement;
+  let fake: ReturnType<typeof createFakeClock>;
+  let render: ReturnType<typeof vi.fn<Parameters<TooltipRenderer>>>;
+  let unmount: ReturnType<typeof vi.fn>;
+  let manager: TooltipManager;
+
+  function dispatch(
+    target: EventTarget,
+    type: string,
+    init: PointerEventInit = {}
+  ) {
+    const EventType = type.startsWith('pointer') ? PointerEvent : MouseEvent;
+    target.dispatchEvent(
+      new EventType(type, {
+        bubbles: true,
+        cancelable: true,
+        pointerType: 'mouse',
+        ...init,
+      })
+    );
+  }
+
+  function createTrigger(content: string) {
+    const element = document.createElement('span');
+    element.className = 'tooltip-trigger';
+    element.setAttribute('data-tooltip', content);
+    root.appendChild(element);
+    return element;
+  }
+
+  beforeEach(() => {
+    root = document.createElement('div');
+    document.body.appendChild(root);
+    trigger = createTrigger('Promise<void>');
+
+    fake = createFakeClock();
+    unmount = vi.fn();
+    render = vi.fn((container: HTMLElement) => {
+      container.appendChild(document.createElement('div')).className =
+        'tooltip-content';
+      // happy-dom has no layout, so give every tooltip a fixed size
+      Object.defineProperties(container, {
+        offsetWidth: { value: 100 },
+        offsetHeight: { value: 40 },
+      });
+      return unmount;
+    });
+
+    manager = new TooltipManager({ root, clock: fake.clock, render });
+    manager.start();
+  });
+
+  afterEach(() => {
+    manager.destroy();
+    root.remove();
+    sessionStorage.clear();
+  });
+
+  it('should move through showing and shown on hover', () => {
+    dispatch(trigger, 'pointerover');
+    expect(manager.getState(trigger)).toBe('showing');
+    expect(render).not.toHaveBeenCalled();
+
+    fake.advance(0);
+    expect(manager.getState(trigger)).toBe('shown');
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(render.mock.calls[0][1]).toMatchObject({
+      content: 'Promise<void>',
+      type: 'default',
+      isClickOpened: false,
+    });
+    expect(root.querySelectorAll('.tooltip-content')).toHaveLength(1);
+  });
+
+  it('should only pass Tooltip.vue the props it declares', () => {
+    manager.destroy();
+    manager = new TooltipManager({ root, clock: fake.clock });
+    manager.start();
+
+    dispatch(trigger, 'pointerover');
+    fake.advance(0);
+
+    const tooltip = root.querySelector('.tooltip-content')!;
+    expect(tooltip.getAttributeNames()).toEqual(['class']);
+  });
+
+  it('should hide after the delay when the pointer leaves', () => {
+    dispatch(trigger, 'pointerover');
+    fake.advance(0);
+
+    dispatch(trigger, 'pointerout');
+    expect(manager.getState(trigger)).toBe('hiding');
+
+    fake.advance(100);
+    expect(manager.getState(trigger)).toBe('idle');
+    expect(unmount).toHaveBeenCalledTimes(1);
+    expect(root.querySelector('.tooltip-content')).toBeNull();
+  });
+
+  it('should keep a hiding tooltip when the trigger is hovered again', () => {
+    dispatch(trigger, 'pointerover');
+    fake.advance(0);
+    dispatch(trigger, 'pointerout');
+    fake.advance(50);
+
+    dispatch(trigger, 'pointerover');
+    expect(manager.getState(trigger)).toBe('shown');
+
+    fake.advance(1000);
+    expect(manager.getState(trigger)).toBe('shown');
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(unmount).not.toHaveBeenCalled();
+  });
+
+  it('should keep the tooltip when the pointer moves onto it', () => {
+    dispatch(trigger, 'pointerover');
+    fake.advance(0);
+
+    const content = root.querySelector('.tooltip-content')!;
+    dispatch(trigger, 'pointerout', { relatedTarget: content });
+    fake.advance(100);
+
+    expect(manager.getState(trigger)).toBe('shown');
+  });
+
+  it('should cancel the close of every tooltip when the pointer returns', () => {
+    const other = createTrigger('string');
+    [trigger, other].forEach((target) => {
+      target.getBoundingClientRect = () => new DOMRect(300, 300, 40, 10);
+      dispatch(target, 'pointerover');
+    });
+    fake.advance(800);
+
+    // Far from both tooltips, then back before they close
+    dispatch(root, 'pointermove', { clientX: 1000, clientY: 1000 });
+    dispatch(root, 'pointermove', { clientX: 310, clientY: 305 });
+    fake.advance(2000);
+
+    expect(manager.getState(trigger)).toBe('shown');
+    expect(manager.getState(other)).toBe('shown');
+  });
+
+  it('should never render a tooltip closed while still showing', () => {
+    dispatch(trigger, 'pointerover');
+    dispatch(trigger, 'pointerout');
+    fake.advance(100);
+
+    expect(manager.getState(trigger)).toBe('idle');
+    expect(render).not.toHaveBeenCalled();
+  });
+
+  it('should toggle tooltips on click when hover is disabled', () => {
+    manager.setHoverEnabled(false);
+
+    dispatch(trigger, 'pointerover');
+    expect(manager.getState(trigger)).toBe('idle');
+
+    dispatch(trigger, 'click');
+    fake.advance(0);
+    expect(manager.getState(trigger)).toBe('shown');
+    expect(render.mock.calls[0][1].isClickOpened).toBe(true);
+
+    dispatch(trigger, 'click');
+    expect(manager.getState(trigger)).toBe('idle');
+  });
+
+  it('should close click-opened tooltips on an outside click', () => {
+    manager.setHoverEnabled(false);
+    dispatch(trigger, 'click');
+    fake.advance(0);
+
+    // Clicks inside the tooltip are left alone
+    dispatch(root.querySelector('.tooltip-content')!, 'click');
+    fake.advance(100);
+    expect(manager.getState(trigger)).toBe('shown');
+
+    dispatch(root, 'click');
+    expect(manager.getState(trigger)).toBe('hiding');
+    fake.advance(100);
+    expect(manager.getState(trigger)).toBe('idle');
+    expect(unmount).toHaveBeenCalledTimes(1);
+  });
+
+  it('should close a tooltip through its close callback', () => {
+    dispatch(trigger, 'pointerover');
+    fake.advance(0);
+
+    render.mock.calls[0][1].onClose();
+
+    expect(manager.getState(trigger)).toBe('idle');
+    expect(unmount).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep pinned tooltips open until unpinned', () => {
+    const other = createTrigger('number');
+    dispatch(trigger, 'pointerover');
+    fake.advance(0);
+
+    manager.setPinned(true);
+    dispatch(trigger, 'pointerout');
+    dispatch(other, 'pointerover');
+    dispatch(root, 'click');
+    fake.advance(5000);
+
+    expect(manager.getState(trigger)).toBe('shown');
+    expect(manager.getState(other)).toBe('idle');
+
+    manager.setPinned(false);
+    expect(manager.getState(trigger)).toBe('idle');
+  });
+
+  it('should follow the trigger on scroll and flip near the edge', () => {
+    let top = 100;
+    trigger.getBoundingClientRect = () => new DOMRect(20, top, 40, 10);
+
+    dispatch(trigger, 'pointerover');
+    fake.advance(0);
+    const mount = root.querySelector('.tooltip-portal > div') as HTMLElement;
+    // Centered above the trigger, shifted right to keep clear of the edge
+    expect(mount.dataset.placement).toBe('top');
+    expect(mount.style.transform).toBe('translate(8px, 52px)');
+
+    top = 30;
+    root.dispatchEvent(new Event('scroll'));
+    expect(mount.dataset.placement).toBe('bottom');
+    expect(mount.style.transform).toBe('translate(8px, 48px)');
+    expect(manager.getPlacement(trigger)?.box).toEqual({
+      left: 8,
+      top: 48,
+      right: 108,
+      bottom: 88,
+    });
+  });
+
+  it('should pass trigger appearance to the tooltip', () => {
+    trigger.getBoundingClientRect = () => new DOMRect(20, 100, 40, 10);
+    Object.assign(trigger.dataset, {
+      tooltipPosition: 'right',
+      tooltipOffset: '12',
+      tooltipTheme: 'dark',
+      tooltipClass: 'raf-tooltip',
+    });
+
+    dispatch(trigger, 'pointerover');
+    fake.advance(0);
+
+    expect(render.mock.calls[0][1]).toMatchObject({
+      theme: 'dark',
+      customClass: 'raf-tooltip',
+    });
+    const mount = root.querySelector('.tooltip-portal > div') as HTMLElement;
+    expect(mount.dataset.placement).toBe('right');
+    expect(mount.style.transform).toBe('translate(72px, 85px)');
+    expect(mount.style.getPropertyValue('--tooltip-arrow-offset')).toBe('20px');
+  });
+
+  it('should mount into the portal target of a trigger', () => {
+    const target = root.appendChild(document.createElement('aside'));
+    target.id = 'sidebar-tooltips';
+    trigger.dataset.tooltipPortal = '#sidebar-tooltips';
+    trigger.getBoundingClientRect = () => new DOMRect(300, 300, 40, 10);
+
+    dispatch(trigger, 'pointerover');
+    fake.advance(0);
+
+    expect(target.querySelector('.tooltip-content')).not.toBeNull();
+    expect(manager.getPlacement(trigger)?.side).toBe('top');
+
+    // The tooltip still counts as inside for outside clicks
+    manager.setHoverEnabled(false);
+    dispatch(trigger, 'click');
+    fake.advance(0);
+    dispatch(target.querySelector('.tooltip-content')!, 'click');
+    expect(manager.getState(trigger)).toBe('shown');
+  });
+
+  describe('keyboard', () => {
+    function press(target: EventTarget, key: string, shiftKey = false) {
+      target.dispatchEvent(
+        new KeyboardEvent('keydown', {
+          key,
+          shiftKey,
+          bubbles: true,
+          cancelable: true,
+        })
+      );
+    }
+
+    beforeEach(() => {
+      trigger.tabIndex = 0;
+      trigger.getBoundingClientRect = () => new DOMRect(300, 300, 40, 10);
+      render.mockImplementation((container: HTMLElement) => {
+        container.innerHTML =
+          '<div class="tooltip-content"><a href="#docs">Docs</a><button>✖</button></div>';
+        return unmount;
+      });
+    });
+
+    it('should open on focus and describe the trigger', () => {
+      trigger.focus();
+      fake.advance(0);
+
+      const tooltip = root.querySelector('[role="tooltip"]')!;
+      expect(manager.getState(trigger)).toBe('shown');
+      expect(trigger.getAttribute('aria-describedby')).toBe(tooltip.id);
+
+      const other = root.appendChild(document.createElement('button'));
+      other.focus();
+      fake.advance(100);
+
+      expect(manager.getState(trigger)).toBe('idle');
+      expect(trigger.hasAttribute('aria-describedby')).toBe(false);
+    });
+
+    it('should close on Escape', () => {
+      trigger.focus();
+      fake.advance(0);
+
+      press(trigger, 'Escape');
+      expect(manager.getState(trigger)).toBe('idle');
+    });
+
+    it('should trap focus in tooltips opened with Enter', () => {
+      trigger.focus();
+      press(trigger, 'Enter');
+      fake.advance(0);
+
+      const link = root.querySelector<HTMLElement>('[role="tooltip"] a')!;
+      const close = root.querySelector<HTMLElement>('[role="tooltip"] button')!;
+      expect(document.activeElement).toBe(link);
+      // Leaving the trigger does not close it
+      expect(manager.getState(trigger)).toBe('shown');
+
+      close.focus();
+      press(close, 'Tab');
+      expect(document.activeElement).toBe(link);
+      press(link, 'Tab', true);
+      expect(document.activeElement).toBe(close);
+
+      press(close, 'Escape');
+      expect(manager.getState(trigger)).toBe('idle');
+      expect(document.activeElement).toBe(trigger);
+    });
+
+    it('should update the rendered props when Enter promotes a tooltip', () => {
+      trigger.focus();
+      fake.advance(0);
+      const [[, props]] = render.mock.calls;
+      expect(props.isClickOpened).toBe(false);
+
+      press(trigger, 'Enter');
+      expect(render).toHaveBeenCalledTimes(1);
+      expect(props.isClickOpened).toBe(true);
+    });
+
+    it('should move between code tokens with arrow keys', () => {
+      const pre = root.appendChild(document.createElement('pre'));
+      pre.innerHTML = [
+        '<span class="line"><span class="tooltip-trigger" tabindex="0" data-tooltip="a">a</span>',
+        '<span class="tooltip-trigger" tabindex="-1" data-tooltip="b">b</span></span>',
+        '<span class="line">plain</span>',
+        '<span class="line"><span class="tooltip-trigger" tabindex="-1" data-tooltip="c">c</span></span>',
+      ].join('');
+      const [a, b, c] = pre.querySelectorAll<HTMLElement>('.tooltip-trigger');
+
+      a.focus();
+      press(a, 'ArrowRight');
+      expect(document.activeElement).toBe(b);
+      expect([a.tabIndex, b.tabIndex]).toEqual([-1, 0]);
+
+      press(b, 'ArrowDown');
+      expect(document.activeElement).toBe(c);
+      press(c, 'ArrowUp');
+      expect(document.activeElement).toBe(a);
+      press(a, 'End');
+      expect(document.activeElement).toBe(c);
+    });
+  });
+
+  describe('pinning', () => {
+    beforeEach(() => {
+      trigger.getBoundingClientRect = () => new DOMRect(300, 300, 40, 10);
+      render.mockImplementation((container: HTMLElement) => {
+        container.innerHTML =
+          '<div class="tooltip-content"><span class="tooltip-drag-handle"></span></div>';
+        Object.defineProperties(container, {
+          offsetWidth: { value: 100 },
+          offsetHeight: { value: 40 },
+        });
+        return unmount;
+      });
+    });
+
+    function getMount(target: HTMLElement) {
+      return root.querySelector<HTMLElement>(
+        `#${CSS.escape(target.getAttribute('aria-describedby')!)}`
+      )!;
+    }
+
+    function drag(target: HTMLElement, x: number, y: number) {
+      const handle = getMount(target).querySelector('.tooltip-drag-handle')!;
+      dispatch(handle, 'pointerdown');
+      dispatch(handle, 'pointermove', { clientX: x, clientY: y });
+      dispatch(handle, 'pointerup', { clientX: x, clientY: y });
+    }
+
+    it('should key tooltips per trigger', () => {
+      const twin = createTrigger('Promise<void>');
+      expect(manager.getTriggerKey(twin)).not.toBe(
+        manager.getTriggerKey(trigger)
+      );
+
+      manager.setTriggerPinned(trigger, true);
+      manager.setTriggerPinned(twin, true);
+      fake.advance(0);
+      expect(manager.getState(trigger)).toBe('shown');
+      expect(manager.getState(twin)).toBe('shown');
+    });
+
+    it('should keep several pinned tooltips open', () => {
+      manager.setHoverEnabled(false);
+      const other = createTrigger('string');
+
+      manager.setTriggerPinned(trigger, true);
+      fake.advance(0);
+      dispatch(other, 'click');
+      fake.advance(0);
+      dispatch(root, 'click');
+      fake.advance(1000);
+
+      expect(manager.getOpenTriggers()).toEqual([trigger]);
+      expect(manager.isTriggerPinned(trigger)).toBe(true);
+    });
+
+    it('should pin from the tooltip and stack the last one on top', () => {
+      const other = createTrigger('string');
+      other.getBoundingClientRect = () => new DOMRect(300, 300, 40, 10);
+      dispatch(trigger, 'pointerover');
+      dispatch(other, 'pointerover');
+      fake.advance(0);
+
+      const [[, props]] = render.mock.calls;
+      props.onTogglePin();
+      expect(props.isPinned).toBe(true);
+      expect(manager.isTriggerPinned(trigger)).toBe(true);
+
+      dispatch(getMount(other), 'pointerdown');
+      expect(Number(getMount(trigger).style.zIndex)).toBeGreaterThan(
+        Number(getMount(other).style.zIndex)
+      );
+    });
+
+    it('should stay anchored to its trigger after dragging', () => {
+      manager.setTriggerPinned(trigger, true);
+      fake.advance(0);
+      const mount = getMount(trigger);
+      expect(mount.style.transform).toBe('translate(270px, 252px)');
+
+      drag(trigger, 30, 10);
+      expect(mount.style.transform).toBe('translate(300px, 262px)');
+      expect(mount.hasAttribute('data-dragged')).toBe(true);
+
+      trigger.getBoundingClientRect = () => new DOMRect(300, 200, 40, 10);
+      root.dispatchEvent(new Event('scroll'));
+      expect(mount.style.transform).toBe('translate(300px, 162px)');
+
+      // Unpinning snaps it back
+      manager.setTriggerPinned(trigger, false);
+      expect(mount.style.transform).toBe('translate(270px, 152px)');
+    });
+
+    it('should restore pinned tooltips from session storage', () => {
+      manager.setTriggerPinned(trigger, true);
+      fake.advance(0);
+      drag(trigger, 30, 10);
+      manager.destroy();
+
+      const restored = new TooltipManager({ root, clock: fake.clock, render });
+      restored.start();
+      fake.advance(0);
+      expect(restored.isTriggerPinned(trigger)).toBe(true);
+      expect(getMount(trigger).style.transform).toBe('translate(300px, 262px)');
+
+      // Closing it forgets the pin
+      render.mock.lastCall![1].onClose();
+      restored.destroy();
+      manager = new TooltipManager({ root, clock: fake.clock, render });
+      manager.start();
+      expect(manager.getState(trigger)).toBe('idle');
+    });
+  });
+
+  describe('touch', () => {
+    function tap(target: EventTarget) {
+      dispatch(target, 'pointerdown', { pointerType: 'touch' });
+      dispatch(target, 'pointerup', { pointerType: 'touch' });
+      dispatch(target, 'click');
+    }
+
+    afterEach(() => {
+      window.happyDOM.setViewport({ width: 1024 });
+    });
+
+    it('should ignore hover and toggle on tap', () => {
+      dispatch(trigger, 'pointerover', { pointerType: 'touch' });
+      fake.advance(0);
+      expect(manager.getState(trigger)).toBe('idle');
+
+      tap(trigger);
+      fake.advance(0);
+      expect(manager.getInputModality()).toBe('touch');
+      expect(manager.getState(trigger)).toBe('shown');
+
+      tap(trigger);
+      expect(manager.getState(trigger)).toBe('idle');
+    });
+
+    it('should close on a tap outside', () => {
+      tap(trigger);
+      fake.advance(0);
+
+      tap(root.querySelector('.tooltip-content')!);
+      expect(manager.getState(trigger)).toBe('shown');
+
+      tap(root);
+      expect(manager.getState(trigger)).toBe('hiding');
+    });
+
+    it('should not tap when the finger moves away', () => {
+      dispatch(trigger, 'pointerdown', { pointerType: 'touch' });
+      dispatch(trigger, 'pointermove', { pointerType: 'touch', clientY: 40 });
+      dispatch(trigger, 'pointerup', { pointerType: 'touch', clientY: 40 });
+      fake.advance(1000);
+      expect(manager.getState(trigger)).toBe('idle');
+    });
+
+    it('should pin on long-press', () => {
+      dispatch(trigger, 'pointerdown', { pointerType: 'touch' });
+      fake.advance(500);
+      dispatch(trigger, 'pointerup', { pointerType: 'touch' });
+
+      const menu = new MouseEvent('contextmenu', {
+        bubbles: true,
+        cancelable: true,
+      });
+      trigger.dispatchEvent(menu);
+      expect(menu.defaultPrevented).toBe(true);
+
+      // Neither tapping elsewhere nor the lifted finger closes it
+      tap(root);
+      fake.advance(1000);
+      expect(manager.getState(trigger)).toBe('shown');
+    });
+
+    it('should show a single bottom sheet on narrow viewports', () => {
+      window.happyDOM.setViewport({ width: 400 });
+      const other = createTrigger('string');
+
+      tap(trigger);
+      fake.advance(0);
+      const mount = root.querySelector<HTMLElement>('[role="tooltip"]')!;
+      expect(mount.dataset.placement).toBe('sheet');
+      expect(mount.style.bottom).toBe('0px');
+      expect(manager.getPlacement(trigger)).toBeNull();
+
+      tap(other);
+      fake.advance(0);
+      expect(manager.getState(trigger)).toBe('idle');
+      expect(manager.getState(other)).toBe('shown');
+    });
+  });
+
+  it('should report opens, dwell time and pins', () => {
+    const events: unknown[] = [];
+    const offs = (
+      ['tooltip-open', 'tooltip-close', 'tooltip-pin'] as const
+    ).map((type) =>
+      onTooltipEvent(type, (detail) => events.push([type, detail]))
+    );
+    trigger.dataset.tooltipId = 'promise-void';
+
+    dispatch(trigger, 'pointerover');
+    fake.advance(0);
+    manager.setTriggerPinned(trigger, true);
+    fake.advance(1500);
+    manager.close(trigger, { immediate: true });
+    offs.forEach((off) => off());
+
+    const target = {
+      term: 'promise-void',
+      page: location.pathname,
+      kind: 'default',
+    };
+    expect(events).toEqual([
+      ['tooltip-open', { ...target, isClickOpened: false }],
+      ['tooltip-pin', target],
+      ['tooltip-close', { ...target, dwell: 1500 }],
+    ]);
+  });
+
+  it('should close tooltips whose trigger leaves the page', async () => {
+    dispatch(trigger, 'pointerover');
+    fake.advance(0);
+    expect(manager.getOpenTriggers()).toEqual([trigger]);
+
+    trigger.remove();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(manager.getOpenTriggers()).toEqual([]);
+    expect(unmount).toHaveBeenCalledTimes(1);
+  });
+
+  it('should detach every listener and remove the portal on destroy', () => {
+    dispatch(trigger, 'pointerover');
+    fake.advance(0);
+
+    manager.destroy();
+    expect(unmount).toHaveBeenCalledTimes(1);
+    expect(root.querySelector('.tooltip-portal')).toBeNull();
+
+    dispatch(trigger, 'pointerover');
+    dispatch(trigger, 'click');
+    fake.advance(1000);
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(manager.getState(trigger)).toBe('idle');
+  });
+});
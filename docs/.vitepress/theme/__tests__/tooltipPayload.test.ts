@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createTooltipPayload,
+  decodeTooltipPayload,
+  encodeTooltipPayload,
+} from '../tooltips/payload';
+
+describe('Tooltip payload', () => {
+  it('should round-trip every section kind', () => {
+    const payload = createTooltipPayload([
+      {
+        severity: 'error',
+        text: "Type 'string' is not assignable to 'number'.",
+      },
+      { severity: 'warning', text: 'Deprecated' },
+      {
+        severity: 'info',
+        badge: {
+          label: 'function',
+          color: { text: '#61afef', background: 'rgba(97, 175, 239, 0.1)' },
+        },
+        code: { code: 'function f<T>(x: T): T', language: 'typescript' },
+        links: [{ label: 'MDN', href: 'https://developer.mozilla.org/' }],
+      },
+      { severity: 'success', text: 'Compiles' },
+      {
+        severity: 'info',
+        component: { name: 'promise-race-demo', props: { delays: [100] } },
+      },
+    ]);
+
+    expect(decodeTooltipPayload(encodeTooltipPayload(payload))).toEqual(
+      payload
+    );
+  });
+
+  it('should keep the old delimiters inside messages intact', () => {
+    const text = 'a ||| b ::: c\ntype:%7B%7D';
+    const payload = createTooltipPayload([{ severity: 'error', text }]);
+
+    expect(
+      decodeTooltipPayload(encodeTooltipPayload(payload)).sections[0].text
+    ).toBe(text);
+  });
+
+  it('should treat plain text as a single info section', () => {
+    expect(decodeTooltipPayload('Deep Dive').sections).toEqual([
+      { severity: 'info', text: 'Deep Dive' },
+    ]);
+  });
+
+  it('should reject unknown versions and malformed sections', () => {
+    expect(() => decodeTooltipPayload('{"version":2,"sections":[]}')).toThrow(
+      'Unsupported tooltip payload version: 2'
+    );
+    expect(() =>
+      decodeTooltipPayload('{"version":1,"sections":[{"severity":"fatal"}]}')
+    ).toThrow('malformed sections');
+    expect(() => decodeTooltipPayload('{"version":')).toThrow(
+      'Invalid tooltip payload'
+    );
+  });
+
+  it('should reject sections whose parts have the wrong shape', () => {
+    const decode = (section: object) =>
+      decodeTooltipPayload(JSON.stringify({ version: 1, sections: [section] }));
+
+    expect(() => decode({ severity: 'info', text: 1 })).toThrow(
+      'malformed sections'
+    );
+    expect(() => decode({ severity: 'info', links: [null] })).toThrow(
+      'malformed sections'
+    );
+    expect(() =>
+      decode({ severity: 'info', component: { name: 'demo', props: null } })
+    ).toThrow('malformed sections');
+    expect(() => decodeTooltipPayload('{"sections":[]}')).toThrow(
+      'Unsupported tooltip payload version: undefined'
+    );
+  });
+});
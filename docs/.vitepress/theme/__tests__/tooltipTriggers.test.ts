@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { resolvePageTooltips } from '../markdown/tooltipTriggers';
+import type { CustomTooltip } from '../types/tooltip';
+
+const deepDive: CustomTooltip = {
+  id: 'dd-tooltip',
+  content: 'Deep Dive',
+  trigger: ['DD', 'Deep Dive'],
+};
+
+describe('Page tooltips', () => {
+  it('should add frontmatter tooltips to the global ones', () => {
+    const tooltips = resolvePageTooltips([deepDive], {
+      tooltips: [{ id: 'raf', content: 'Next repaint', trigger: 'rAF' }],
+    });
+
+    expect(tooltips.map((tooltip) => tooltip.id)).toEqual([
+      'dd-tooltip',
+      'raf',
+    ]);
+    expect(tooltips[1]).toMatchObject({
+      trigger: ['rAF'],
+      appearance: { position: 'bottom', offset: 8 },
+    });
+  });
+
+  it('should let a page replace a global tooltip by id', () => {
+    const tooltips = resolvePageTooltips([deepDive], {
+      tooltips: [{ id: 'dd-tooltip', content: 'Local', trigger: 'DD' }],
+    });
+
+    expect(tooltips).toHaveLength(1);
+    expect(tooltips[0].content).toBe('Local');
+  });
+
+  it('should skip invalid frontmatter tooltips with a warning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(
+      resolvePageTooltips([deepDive], { tooltips: [{ id: 'broken' }] }, 'a.md')
+    ).toEqual([deepDive]);
+    expect(resolvePageTooltips([], { tooltips: 'DD' }, 'a.md')).toEqual([]);
+    expect(warn).toHaveBeenCalledWith(
+      'Ignoring tooltip "broken" in a.md: Missing required tooltip configuration'
+    );
+
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  checkMarkdownFile,
+  createAllowlist,
+  createReport,
+  formatReport,
+  hashFence,
+  parseAllowlist,
+  type FenceReport,
+} from '../../utils/typecheckDocs';
+
+const fence = (hash: string, messages: string[] = []): FenceReport => ({
+  line: 10,
+  hash,
+  allowed: false,
+  diagnostics: messages.map((message, index) => ({
+    line: 11 + index,
+    column: 1,
+    message,
+  })),
+});
+
+describe('Docs type-check report', () => {
+  const results = [
+    { file: 'a.md', fences: [fence('ok'), fence('broken', ['Oops'])] },
+    { file: 'b.md', fences: [fence('new', ['Cannot find name'])] },
+  ];
+
+  it('should hash fences by content', () => {
+    expect(hashFence('const a = 1;')).toBe(hashFence('const a = 1;'));
+    expect(hashFence('const a = 1;')).not.toBe(hashFence('const a = 2;'));
+  });
+
+  it('should separate allowed, new and stale failures', () => {
+    const report = createReport(results, {
+      fences: [
+        { file: 'a.md', hash: 'broken', reason: 'Shows an error' },
+        { file: 'a.md', hash: 'ok', reason: 'Was broken' },
+      ],
+    });
+
+    expect(report.summary).toEqual({
+      files: 2,
+      fences: 3,
+      failing: 2,
+      allowed: 1,
+      new: 1,
+    });
+    expect(report.files.map((file) => file.file)).toEqual(['a.md', 'b.md']);
+    expect(report.stale).toEqual([
+      { file: 'a.md', hash: 'ok', reason: 'Was broken' },
+    ]);
+  });
+
+  it('should only list allowed diagnostics when verbose', () => {
+    const report = createReport(results, {
+      fences: [{ file: 'a.md', hash: 'broken', reason: 'Shows an error' }],
+    });
+
+    expect(formatReport(report)).toBe(
+      [
+        'b.md',
+        '  11:1  error  Cannot find name  (fence at line 10, new)',
+        '',
+        '3 fences in 2 files: 2 failing, 1 allowed, 1 new',
+      ].join('\n')
+    );
+    expect(formatReport(report, { verbose: true })).toContain(
+      '11:1  allowed  Oops'
+    );
+  });
+
+  it('should keep reasons when updating the allow-list', () => {
+    const previous = {
+      fences: [{ file: 'a.md', hash: 'broken', reason: 'Shows an error' }],
+    };
+
+    expect(createAllowlist(createReport(results, previous), previous)).toEqual({
+      fences: [
+        { file: 'a.md', hash: 'broken', reason: 'Shows an error' },
+        { file: 'b.md', hash: 'new', reason: '' },
+      ],
+    });
+  });
+
+  it('should reject allow-list entries without a reason', () => {
+    const entry = { file: 'a.md', hash: 'broken', reason: 'Shows an error' };
+
+    expect(parseAllowlist(JSON.stringify({ fences: [entry] }))).toEqual({
+      fences: [entry],
+    });
+    expect(() =>
+      parseAllowlist(JSON.stringify({ fences: [{ ...entry, reason: ' ' }] }))
+    ).toThrow('Invalid allow-list entry: a.md broken has no reason');
+    expect(() =>
+      parseAllowlist(JSON.stringify({ fences: [{ file: 'a.md', hash: 'x' }] }))
+    ).toThrow('has no reason');
+    expect(() => parseAllowlist('{}')).toThrow('missing fences');
+  });
+
+  it('should check TypeScript and TSX fences only', async () => {
+    // The setup file mocks vitepress for the theme
+    const { createMarkdownRenderer } =
+      await vi.importActual<typeof import('vitepress')>('vitepress');
+    const md = await createMarkdownRenderer(process.cwd());
+    const source = [
+      '```typescript:preview',
+      'const count: number = 1;',
+      '```',
+      '',
+      '```tsx',
+      'const Counter = ({ count }: { count: number }) => <b>{count}</b>;',
+      'const label: string = <Counter count={1} />;',
+      '```',
+      '',
+      '```javascript',
+      'const ignored = missing;',
+      '```',
+    ].join('\n');
+
+    const fences = checkMarkdownFile(md, source, 'page.md', 'page.md');
+
+    expect(fences.map((fence) => fence.line)).toEqual([1, 5]);
+    expect(fences[0].diagnostics).toEqual([]);
+    expect(fences[1].diagnostics).toEqual([
+      {
+        line: 7,
+        column: 7,
+        message: expect.stringContaining(
+          "Type 'Element' is not assignable to type 'string'"
+        ),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { computed, onMounted, onUnmounted, ref } from 'vue';
+import type { OfflineRequest, OfflineStatus } from '../offline/protocol';
+
+// Downloads all pages for offline reading through the service worker.
+// `status` stays null while no service worker controls the page
+export function useOfflineDownload() {
+  const status = ref<OfflineStatus | null>(null);
+  const isComplete = computed(
+    () =>
+      !!status.value &&
+      !status.value.downloading &&
+      status.value.downloaded >= status.value.total
+  );
+
+  function send(request: OfflineRequest) {
+    navigator.serviceWorker.controller?.postMessage(request);
+  }
+
+  function requestStatus() {
+    send({ type: 'get-offline-status' });
+  }
+
+  function handleMessage(event: MessageEvent) {
+    if (event.data?.type === 'offline-status') status.value = event.data;
+  }
+
+  function download() {
+    send({ type: 'download-pages' });
+  }
+
+  onMounted(() => {
+    if (!('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    // The first visit is controlled once the worker activates, and new
+    // versions start with their own caches
+    navigator.serviceWorker.addEventListener('controllerchange', requestStatus);
+    requestStatus();
+  });
+
+  onUnmounted(() => {
+    if (!('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.removeEventListener('message', handleMessage);
+    navigator.serviceWorker.removeEventListener(
+      'controllerchange',
+      requestStatus
+    );
+  });
+
+  return { status, isComplete, download };
+}
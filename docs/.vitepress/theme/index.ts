@@ -1,13 +1,14 @@
-import { inBrowser } from 'vitepress';
+import { inBrowser, type Router } from 'vitepress';
 import DefaultTheme from 'vitepress/theme';
 import { h } from 'vue';
 import Layout from './Layout.vue';
 import './styles/index.scss';
 import CustomFooter from './components/CustomFooter.vue';
+import { registerServiceWorker } from './offline/registerServiceWorker';
 
 // Lazy load tooltip setup
-const setupTooltips = () =>
-  import('./setupTooltips').then((m) => m.setupTooltips());
+const setupTooltips = (router: Router) =>
+  import('./setupTooltips').then((m) => m.setupTooltips(router));
 
 export default {
   ...DefaultTheme,
@@ -16,9 +17,10 @@ export default {
       'layout-bottom': () => h(CustomFooter),
     });
   },
-  enhanceApp({ app }) {
+  enhanceApp({ app, router }) {
     if (inBrowser) {
-      setupTooltips();
+      setupTooltips(router);
+      registerServiceWorker();
     }
   },
 };
@@ -1,6 +1,25 @@
-import type { MarkdownRenderer } from 'vitepress';
-import { parseCode } from '../utils/parsers';
-import { typeColors, typeDefinitions } from '../utils/typeDefinitions';
+import type { MarkdownRenderer, SiteConfig } from 'vitepress';
+import {
+  createParseCache,
+  formatParseCacheStats,
+  getParser,
+  parseCode,
+  type ParseCache,
+  type ParserResult,
+} from '../utils/parsers';
+import {
+  getSymbolKindColor,
+  typeColors,
+  typeDefinitions,
+} from '../utils/typeDefinitions';
+import {
+  createTooltipPayload,
+  encodeTooltipPayload,
+} from '../tooltips/payload';
+import type { TooltipSection } from '../types/tooltip';
+import { parseFenceInfo } from './fenceInfo';
+import { assignPreviewGroups, getPreviewContext } from './previewGroups';
+import { highlightWithTooltips, type TooltipRange } from './previewTransformer';
 
 // Debug control state
 let debugLoggingEnabled = false;
@@ -15,7 +34,6 @@ export function toggleDebugLogging(enable: boolean) {
 const DEBUG = {
   TOKENS: true,
   ERRORS: true,
-  REGEX: true,
   HTML: true,
   PARSER: true,
 } as const;
@@ -46,139 +64,188 @@ function escapeHtml(unsafe: string | undefined): string {
     .replace(/'/g, '&#039;');
 }
 
-export function codePreviewPlugin(md: MarkdownRenderer) {
+function pluralize(count: number, word: string) {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function getLineNumber(code: string, offset: number) {
+  return code.slice(0, offset).split('\n').length;
+}
+
+// Summary of a block's diagnostics; hovering it lists every problem by line
+function renderStatusBadge(code: string, parseResult: ParserResult): string {
+  const errors = parseResult.errors ?? [];
+  const warnings = parseResult.warnings ?? [];
+
+  const sections: TooltipSection[] = [
+    ...errors.map((error) => ({
+      severity: 'error' as const,
+      text: `Line ${getLineNumber(code, error.start)}: ${error.error}`,
+    })),
+    ...warnings.map((warning) => ({
+      severity: 'warning' as const,
+      text: `Line ${getLineNumber(code, warning.start)}: ${warning.warning}`,
+    })),
+  ];
+
+  let status = 'success';
+  let label = '✓ Compiles';
+  if (errors.length > 0) {
+    status = 'error';
+    label = `⚠ ${pluralize(errors.length, 'error')}`;
+  } else if (warnings.length > 0) {
+    status = 'warning';
+    label = `⚡ ${pluralize(warnings.length, 'warning')}`;
+  } else {
+    sections.push({ severity: 'success', text: 'Compiles without errors' });
+  }
+
+  const payload = escapeHtml(
+    encodeTooltipPayload(createTooltipPayload(sections))
+  );
+
+  return `<span class="tooltip-trigger code-preview-status is-${status}" tabindex="0" data-tooltip="${payload}">${label}</span>`;
+}
+
+// Zero-length diagnostics (e.g. a missing `;`) still need a character to mark
+function widenRange(code: string, start: number, end: number) {
+  if (end > start) return { start, end };
+  return start < code.length
+    ? { start, end: start + 1 }
+    : { start: Math.max(0, start - 1), end: start };
+}
+
+// Tooltip ranges for a block: diagnostics first, then compiler quick info for
+// every identifier and the hand-written dictionary for keywords and untyped
+// languages
+function getTooltipRanges(
+  code: string,
+  parseResult: ParserResult
+): TooltipRange[] {
+  const ranges: TooltipRange[] = [];
+
+  parseResult.errors?.forEach((error) => {
+    if (!error.error) return;
+    ranges.push({
+      ...widenRange(code, error.start, error.end),
+      section: { severity: 'error', text: error.error },
+    });
+  });
+
+  parseResult.warnings?.forEach((warning) => {
+    if (!warning.warning) return;
+    ranges.push({
+      ...widenRange(code, warning.start, warning.end),
+      section: { severity: 'warning', text: warning.warning },
+    });
+  });
+
+  parseResult.tokens.forEach((tokenInfo) => {
+    const info = typeDefinitions[tokenInfo.text];
+    const quickInfo = tokenInfo.quickInfo?.display
+      ? tokenInfo.quickInfo
+      : undefined;
+
+    if (!quickInfo && !info) return;
+
+    // Compiler hover text is shown as a code snippet, documentation as text
+    const section: TooltipSection = quickInfo
+      ? {
+          severity: 'info',
+          badge: {
+            label: quickInfo.kind,
+            color: getSymbolKindColor(quickInfo.kind),
+          },
+          code: { code: quickInfo.display, language: 'typescript' },
+          text: quickInfo.documentation || undefined,
+        }
+      : {
+          severity: 'info',
+          badge: {
+            label: info.type || 'unknown',
+            color:
+              info.type && typeColors[info.type as keyof typeof typeColors]
+                ? typeColors[info.type as keyof typeof typeColors]
+                : { text: '#666', background: 'rgba(102, 102, 102, 0.1)' },
+          },
+          text: info.description || 'No description available',
+        };
+
+    ranges.push({ start: tokenInfo.start, end: tokenInfo.end, section });
+  });
+
+  return ranges;
+}
+
+export interface CodePreviewOptions {
+  // Directory for persistent parse results; blocks are re-parsed without it
+  cacheDir?: string;
+}
+
+let parseCache: ParseCache | null = null;
+
+// At the end of a build, when every preview block was parsed: drop the cache
+// entries no block used and log how many blocks were served from the cache
+export function finishCodePreviewCache(logger: SiteConfig['logger']) {
+  if (!parseCache) return;
+
+  const pruned = parseCache.prune();
+  logger.info(
+    `Code preview parse cache: ${formatParseCacheStats(parseCache.getStats())}, ${pruned} stale entries pruned`
+  );
+}
+
+export function codePreviewPlugin(
+  md: MarkdownRenderer,
+  options: CodePreviewOptions = {}
+) {
   const originalFence = md.renderer.rules.fence!;
+  parseCache = options.cacheDir
+    ? createParseCache(options.cacheDir, parseCode)
+    : null;
+  const parse = parseCache?.parse ?? parseCode;
+
+  md.core.ruler.push('code_preview_groups', (state) =>
+    assignPreviewGroups(state.tokens)
+  );
 
   md.renderer.rules.fence = (...args) => {
     const [tokens, idx, options, env, self] = args;
     const token = tokens[idx];
 
-    const rawLang = token.info.trim();
-    const [lang, ...flags] = rawLang.split(':');
-    const isPreview = flags.includes('preview');
+    const { lang, isPreview } = parseFenceInfo(token.info);
 
     token.info = lang;
-    const highlightedCode = originalFence(tokens, idx, options, env, self);
 
     if (!isPreview) {
-      return highlightedCode;
+      return originalFence(tokens, idx, options, env, self);
     }
 
-    let modifiedCode = highlightedCode;
-    const parseResult = parseCode(token.content, lang);
+    const parseResult = parse(
+      token.content,
+      lang,
+      getPreviewContext(token, env?.relativePath)
+    );
+    const ranges = getTooltipRanges(token.content, parseResult);
 
     debugLog('TOKENS', 'Initial parse result:', {
       tokens: parseResult.tokens,
       errors: parseResult.errors,
-      highlightedCode,
+      warnings: parseResult.warnings,
+      ranges,
     });
 
-    // Track tooltips for each term
-    const tooltipMap = new Map<
-      string,
-      { errors: Set<string>; info: Set<string> }
-    >();
-
-    // Process errors first to ensure they're preserved
-    parseResult.errors?.forEach((error) => {
-      if (!error?.text) return;
-      const term = error.text;
-      const escapedError = escapeHtml(error.error);
-      if (!escapedError) return;
-
-      if (!tooltipMap.has(term)) {
-        tooltipMap.set(term, { errors: new Set(), info: new Set() });
-      }
-      tooltipMap.get(term)!.errors.add(`error:::${escapedError}`);
-    });
+    // `codePreviewTransformer` decorates the ranges while Shiki highlights
+    const highlightedCode = highlightWithTooltips(ranges, () =>
+      originalFence(tokens, idx, options, env, self)
+    );
 
-    // Process regular type tooltips
-    parseResult.tokens.forEach((tokenInfo) => {
-      const term = tokenInfo?.text;
-      const info = term ? typeDefinitions[term] : undefined;
+    debugLog('HTML', 'Highlighted code:', highlightedCode);
 
-      if (!info) {
-        // console.log('No type definition found for term:', term);
-        return;
-      }
-
-      if (!tooltipMap.has(term)) {
-        tooltipMap.set(term, { errors: new Set(), info: new Set() });
-      }
-
-      // Format the tooltip content with type information
-      const typeInfo = {
-        type: info.type || 'unknown',
-        color:
-          info.type && typeColors[info.type as keyof typeof typeColors]
-            ? typeColors[info.type as keyof typeof typeColors]
-            : { text: '#666', background: 'rgba(102, 102, 102, 0.1)' },
-      };
-
-      const tooltipContent = encodeURIComponent(
-        JSON.stringify({
-          type: typeInfo.type,
-          color: typeInfo.color,
-          description: info.description || 'No description available',
-        })
-      );
-
-      tooltipMap
-        .get(term)!
-        .info.add(`info:::${typeInfo.type}\ntype:${tooltipContent}`);
-    });
-
-    // Apply tooltips
-    tooltipMap.forEach(({ errors, info }, term) => {
-      const termPattern = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      const regex = new RegExp(
-        `(<span[^>]*?>)([^<]*?\\b)(${termPattern})\\b([^<]*?)(</span>)`,
-        'g'
-      );
-
-      // Add test messages for each type
-      const testMessages = [
-        'error:::This is a test error message',
-        'warning:::This is a test warning message',
-        'info:::This is a test info message',
-        'success:::This is a test success message',
-      ];
-
-      const combinedContent = [
-        ...Array.from(errors),
-        ...Array.from(info).map((infoStr) => {
-          if (!infoStr || !infoStr.includes('type:')) return infoStr;
-
-          try {
-            const [desc, typeInfoStr] = infoStr
-              .split('type:')
-              .map((s) => s.trim());
-            const typeInfo = JSON.parse(decodeURIComponent(typeInfoStr));
-
-            if (!typeInfo || typeof typeInfo !== 'object') {
-              console.log('Invalid typeInfo:', typeInfoStr);
-              return infoStr;
-            }
-
-            return `${desc}\ntype:${encodeURIComponent(JSON.stringify(typeInfo))}`;
-          } catch (error) {
-            console.error('Error processing type info:', error);
-            return infoStr;
-          }
-        }),
-      ].join('|||');
-
-      modifiedCode = modifiedCode.replace(
-        regex,
-        (match, spanStart, before, term, after, spanEnd) => {
-          const hasError = errors.size > 0;
-          return `${spanStart}${before}<span class="tooltip-trigger ${
-            hasError ? 'has-error' : ''
-          }" data-tooltip="${combinedContent}">${term}</span>${after}${spanEnd}`;
-        }
-      );
-    });
+    const statusBadge = getParser(lang)
+      ? renderStatusBadge(token.content, parseResult)
+      : '';
 
-    return `<div class="code-preview">${modifiedCode}</div>`;
+    return `<div class="code-preview">${statusBadge}${highlightedCode}</div>`;
   };
 }
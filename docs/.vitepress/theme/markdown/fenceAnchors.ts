@@ -0,0 +1,25 @@
+import type { MarkdownRenderer } from 'vitepress';
+
+// Id of a code block, from the 1-based line of its opening fence in the page
+// body (the source after frontmatter), so links can be built from the markdown
+export function getFenceAnchor(line: number): string {
+  return `code-${line}`;
+}
+
+// Give every rendered code block its fence anchor as id. Registered after the
+// plugins replacing the fence renderer, so previews get one too
+export function fenceAnchorsPlugin(md: MarkdownRenderer) {
+  const originalFence = md.renderer.rules.fence!;
+
+  md.renderer.rules.fence = (...args) => {
+    const [tokens, idx] = args;
+    const html = originalFence(...args);
+    const map = tokens[idx].map;
+    if (!map) return html;
+
+    return html.replace(
+      /^(\s*<[a-z][\w-]*)/i,
+      `$1 id="${getFenceAnchor(map[0] + 1)}"`
+    );
+  };
+}
@@ -0,0 +1,31 @@
+export interface FenceInfo {
+  lang: string;
+  // Bare flags such as `preview`
+  flags: string[];
+  // `key=value` options such as `file=promise.ts` or `group=custom-promise`
+  options: Record<string, string>;
+  isPreview: boolean;
+}
+
+// Parse a fence info string like `ts:preview:file=promise.ts:group=custom-promise`
+export function parseFenceInfo(info: string): FenceInfo {
+  const [lang, ...parts] = info.trim().split(':');
+  const flags: string[] = [];
+  const options: Record<string, string> = {};
+
+  parts.forEach((part) => {
+    const separator = part.indexOf('=');
+    if (separator === -1) {
+      flags.push(part);
+    } else {
+      options[part.slice(0, separator)] = part.slice(separator + 1);
+    }
+  });
+
+  return {
+    lang,
+    flags,
+    options,
+    isPreview: flags.includes('preview'),
+  };
+}
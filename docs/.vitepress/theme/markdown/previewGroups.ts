@@ -0,0 +1,77 @@
+import {
+  resolveLanguage,
+  type ParseContext,
+  type PreviewGroupFile,
+} from '../utils/parsers';
+import { parseFenceInfo } from './fenceInfo';
+
+// Per-fence group membership, stored on `token.meta.codePreview`
+export interface PreviewGroupMeta {
+  group: string;
+  fileName: string;
+  // Every file of the group, this fence's included
+  files: PreviewGroupFile[];
+}
+
+// The parts of a markdown-it token used for preview fences
+export interface FenceToken {
+  type: string;
+  info: string;
+  content: string;
+  map: [number, number] | null;
+  meta: { codePreview?: PreviewGroupMeta } | null;
+}
+
+const fileExtensions: Record<string, string> = {
+  typescript: 'ts',
+  javascript: 'js',
+  tsx: 'tsx',
+  jsx: 'jsx',
+};
+
+// Assign `:group=` fences to their groups before rendering, so every block in a
+// group can be checked against all of its siblings, including later ones
+export function assignPreviewGroups(tokens: FenceToken[]) {
+  const groups = new Map<string, PreviewGroupFile[]>();
+
+  tokens.forEach((token) => {
+    if (token.type !== 'fence') return;
+
+    const { lang, options, isPreview } = parseFenceInfo(token.info);
+    if (!isPreview || !options.group) return;
+
+    const files = groups.get(options.group) ?? [];
+    const extension = fileExtensions[resolveLanguage(lang)] ?? 'ts';
+    let fileName = options.file ?? `block-${files.length + 1}.${extension}`;
+
+    if (files.some((file) => file.fileName === fileName)) {
+      console.warn(
+        `Duplicate preview file "${fileName}" in group "${options.group}"`
+      );
+      fileName = `block-${files.length + 1}.${extension}`;
+    }
+
+    files.push({ fileName, code: token.content });
+    groups.set(options.group, files);
+
+    const meta: PreviewGroupMeta = { group: options.group, fileName, files };
+    token.meta = { ...token.meta, codePreview: meta };
+  });
+}
+
+// Parser context for a fence; `relativePath` keeps group ids unique per page
+export function getPreviewContext(
+  token: FenceToken,
+  relativePath = ''
+): ParseContext {
+  const meta = token.meta?.codePreview;
+  if (!meta) return {};
+
+  return {
+    fileName: meta.fileName,
+    group: {
+      id: `${relativePath}#${meta.group}`,
+      files: meta.files,
+    },
+  };
+}
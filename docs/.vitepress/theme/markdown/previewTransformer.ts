@@ -0,0 +1,118 @@
+import type { MarkdownOptions } from 'vitepress';
+import {
+  createTooltipPayload,
+  encodeTooltipPayload,
+} from '../tooltips/payload';
+import type { TooltipSection, TooltipSeverity } from '../types/tooltip';
+
+type ShikiTransformer = NonNullable<
+  MarkdownOptions['codeTransformers']
+>[number];
+type ThemedToken = Parameters<NonNullable<ShikiTransformer['span']>>[4];
+
+// A source range of the block being highlighted and what its tooltip shows
+export interface TooltipRange {
+  start: number;
+  end: number;
+  section: TooltipSection;
+}
+
+const severityOrder: TooltipSeverity[] = [
+  'error',
+  'warning',
+  'success',
+  'info',
+];
+
+const severityClasses: Partial<Record<TooltipSeverity, string>> = {
+  error: 'has-error',
+  warning: 'has-warning',
+};
+
+// Ranges of the preview block currently being highlighted; Shiki runs
+// synchronously inside the fence renderer, so one slot is enough
+let activeRanges: TooltipRange[] = [];
+// Only the first trigger of a block is in the tab order; arrow keys move on
+// from there
+let hasTabStop = false;
+
+export function highlightWithTooltips<T>(
+  ranges: TooltipRange[],
+  highlight: () => T
+): T {
+  activeRanges = ranges;
+  hasTabStop = false;
+  try {
+    return highlight();
+  } finally {
+    activeRanges = [];
+  }
+}
+
+// Split a token at every range boundary inside it, so each resulting span is
+// covered by the same set of ranges from start to end
+function splitToken(token: ThemedToken, boundaries: number[]): ThemedToken[] {
+  const end = token.offset + token.content.length;
+  const cuts = boundaries.filter((b) => b > token.offset && b < end);
+  if (cuts.length === 0) return [token];
+
+  return [token.offset, ...cuts].map((start, index) => ({
+    ...token,
+    offset: start,
+    content: token.content.slice(
+      start - token.offset,
+      (cuts[index] ?? end) - token.offset
+    ),
+  }));
+}
+
+function getSections(ranges: TooltipRange[]): TooltipSection[] {
+  const sections = new Map<string, TooltipSection>();
+  ranges.forEach(({ section }) =>
+    sections.set(JSON.stringify(section), section)
+  );
+
+  return [...sections.values()].sort(
+    (a, b) =>
+      severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity)
+  );
+}
+
+// Decorates exactly the spans covered by the active ranges, including ranges
+// spanning several tokens or lines
+export function codePreviewTransformer(): ShikiTransformer {
+  return {
+    name: 'web-patterns:code-preview',
+    tokens(lines) {
+      if (activeRanges.length === 0) return;
+
+      const boundaries = [
+        ...new Set(activeRanges.flatMap(({ start, end }) => [start, end])),
+      ].sort((a, b) => a - b);
+
+      return lines.map((line) =>
+        line.flatMap((token) => splitToken(token, boundaries))
+      );
+    },
+    span(hast, _line, _col, _lineElement, token) {
+      const end = token.offset + token.content.length;
+      const covering = activeRanges.filter(
+        (range) => range.start < end && range.end > token.offset
+      );
+      if (covering.length === 0) return;
+
+      const sections = getSections(covering);
+      const severityClass = severityClasses[sections[0].severity];
+
+      this.addClassToHast(
+        hast,
+        severityClass ? ['tooltip-trigger', severityClass] : 'tooltip-trigger'
+      );
+      hast.properties['data-tooltip'] = encodeTooltipPayload(
+        createTooltipPayload(sections)
+      );
+      hast.properties.tabindex = hasTabStop ? -1 : 0;
+      hasTabStop = true;
+    },
+  };
+}
@@ -0,0 +1,199 @@
+import type { MarkdownRenderer } from 'vitepress';
+import {
+  createAdHocTooltip,
+  isComponentContent,
+} from '../tooltips/adhocTooltips';
+import { globalTooltips } from '../tooltips/config';
+import {
+  createTooltipPayload,
+  encodeTooltipPayload,
+} from '../tooltips/payload';
+import type { CustomTooltip, TooltipSection } from '../types/tooltip';
+
+type StateCore = Parameters<
+  Parameters<MarkdownRenderer['core']['ruler']['push']>[1]
+>[0];
+type Token = StateCore['tokens'][number];
+
+export interface TooltipTriggerOptions {
+  // Tooltips available on every page; pages add more with `tooltips:` in
+  // their frontmatter
+  tooltips?: CustomTooltip[];
+}
+
+interface TriggerMatcher {
+  pattern: RegExp;
+  tooltips: Map<string, CustomTooltip>;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Global tooltips plus the page's own, which replace globals with the same id
+export function resolvePageTooltips(
+  globals: CustomTooltip[],
+  frontmatter: Record<string, any> | undefined,
+  relativePath = ''
+): CustomTooltip[] {
+  const tooltips = new Map<string, CustomTooltip>();
+  globals.forEach((tooltip) => tooltips.set(tooltip.id, tooltip));
+
+  const local: unknown = frontmatter?.tooltips;
+  if (local !== undefined && !Array.isArray(local)) {
+    console.warn(
+      `Ignoring non-list \`tooltips\` frontmatter in ${relativePath}`
+    );
+    return [...tooltips.values()];
+  }
+
+  (local ?? []).forEach((config: CustomTooltip) => {
+    try {
+      const tooltip = createAdHocTooltip(config);
+      tooltips.set(tooltip.id, tooltip);
+    } catch (error) {
+      console.warn(
+        `Ignoring tooltip "${config?.id ?? '?'}" in ${relativePath}: ${
+          (error as Error).message
+        }`
+      );
+    }
+  });
+
+  return [...tooltips.values()];
+}
+
+function createMatcher(tooltips: CustomTooltip[]): TriggerMatcher | null {
+  const byTrigger = new Map<string, CustomTooltip>();
+
+  tooltips.forEach((tooltip) => {
+    const triggers = Array.isArray(tooltip.trigger)
+      ? tooltip.trigger
+      : [tooltip.trigger];
+    triggers
+      .filter(Boolean)
+      .forEach((trigger) => byTrigger.set(trigger, tooltip));
+  });
+
+  if (byTrigger.size === 0) return null;
+
+  // Longest first, so "Deep Dive" wins over a shorter "Deep"
+  const alternatives = [...byTrigger.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+
+  return {
+    pattern: new RegExp(
+      `(?<![\\w-])(${alternatives.join('|')})(?![\\w-])`,
+      'g'
+    ),
+    tooltips: byTrigger,
+  };
+}
+
+// Components given directly in the config are registered client-side under
+// the tooltip's id
+function getSection({ id, content }: CustomTooltip): TooltipSection {
+  if (typeof content === 'string') return { severity: 'info', text: content };
+  if (isComponentContent(content)) {
+    return { severity: 'info', component: content.component };
+  }
+  return { severity: 'info', component: { name: id } };
+}
+
+export function renderTooltipTrigger(
+  md: MarkdownRenderer,
+  tooltip: CustomTooltip,
+  text: string
+): string {
+  const { appearance = {}, portal = {} } = tooltip;
+  const payload = encodeTooltipPayload(
+    createTooltipPayload([getSection(tooltip)])
+  );
+
+  // Appearance travels with the trigger and is applied by the tooltip manager
+  const attributes: Record<string, string | number | undefined> = {
+    class: 'tooltip-trigger custom-tooltip',
+    tabindex: 0,
+    'data-tooltip': payload,
+    'data-tooltip-id': tooltip.id,
+    'data-tooltip-position': appearance.position,
+    'data-tooltip-offset': appearance.offset,
+    'data-tooltip-theme': appearance.theme,
+    'data-tooltip-class': appearance.customClass,
+    'data-tooltip-portal': portal.target,
+  };
+
+  const rendered = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => `${name}="${md.utils.escapeHtml(String(value))}"`)
+    .join(' ');
+
+  return `<span ${rendered}>${md.utils.escapeHtml(text)}</span>`;
+}
+
+// Split one text token into text and trigger tokens
+function splitText(
+  state: StateCore,
+  md: MarkdownRenderer,
+  token: Token,
+  matcher: TriggerMatcher
+): Token[] {
+  const { content } = token;
+  const result: Token[] = [];
+  let last = 0;
+
+  function pushText(text: string) {
+    if (!text) return;
+    const textToken = new state.Token('text', '', 0);
+    textToken.content = text;
+    result.push(textToken);
+  }
+
+  for (const match of content.matchAll(matcher.pattern)) {
+    const tooltip = matcher.tooltips.get(match[1])!;
+    pushText(content.slice(last, match.index));
+
+    const trigger = new state.Token('html_inline', '', 0);
+    trigger.content = renderTooltipTrigger(md, tooltip, match[1]);
+    result.push(trigger);
+
+    last = match.index! + match[1].length;
+  }
+
+  if (last === 0) return [token];
+  pushText(content.slice(last));
+  return result;
+}
+
+// Wrap configured trigger phrases in body text, leaving headings, links and
+// code alone
+export function tooltipTriggersPlugin(
+  md: MarkdownRenderer,
+  options: TooltipTriggerOptions = {}
+) {
+  const globals = options.tooltips ?? globalTooltips;
+
+  md.core.ruler.push('tooltip_triggers', (state) => {
+    const env = state.env ?? {};
+    const matcher = createMatcher(
+      resolvePageTooltips(globals, env.frontmatter, env.relativePath)
+    );
+    if (!matcher) return;
+
+    state.tokens.forEach((blockToken, index) => {
+      if (blockToken.type !== 'inline' || !blockToken.children) return;
+      // Heading text feeds anchors and the outline
+      if (state.tokens[index - 1]?.type === 'heading_open') return;
+
+      let linkDepth = 0;
+      blockToken.children = blockToken.children.flatMap((child) => {
+        if (child.type === 'link_open') linkDepth++;
+        if (child.type === 'link_close') linkDepth--;
+        if (child.type !== 'text' || linkDepth > 0) return [child];
+
+        return splitText(state, md, child, matcher);
+      });
+    });
+  });
+}
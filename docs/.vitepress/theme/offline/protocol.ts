@@ -0,0 +1,35 @@
+// Written to the root of the site, so its scope is all of `base`
+export const SERVICE_WORKER_FILE = 'sw.js';
+
+// What the generated service worker caches, written into it by
+// `plugins/serviceWorker.ts`. URLs include `base`
+export interface PrecacheManifest {
+  // Hash of the build; caches of other versions are deleted on activation
+  version: string;
+  // Cached on install: the shell pages, scripts, styles and search indexes
+  shell: string[];
+  // Cached when visited, or all at once when downloaded for offline
+  pages: OfflinePage[];
+}
+
+export interface OfflinePage {
+  url: string;
+  // The page's full chunk, loaded when navigating to it in the app
+  chunk: string;
+}
+
+// Sent by pages to the service worker
+export type OfflineRequest =
+  | { type: 'get-offline-status' }
+  | { type: 'download-pages' };
+
+// Sent by the service worker to its pages, while downloading and on request
+export interface OfflineStatus {
+  type: 'offline-status';
+  // Pages whose HTML and chunk are both cached
+  downloaded: number;
+  total: number;
+  downloading: boolean;
+  // The last download failed, most likely because the network went away
+  failed: boolean;
+}
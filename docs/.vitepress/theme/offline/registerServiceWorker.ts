@@ -0,0 +1,22 @@
+import { withBase } from 'vitepress';
+import { SERVICE_WORKER_FILE } from './protocol';
+
+// Only builds have a service worker, which `plugins/serviceWorker.ts` writes
+// once the pages are rendered
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  const register = () =>
+    navigator.serviceWorker
+      .register(withBase(`/${SERVICE_WORKER_FILE}`))
+      .catch((error) => {
+        console.error('Error registering the service worker:', error);
+      });
+
+  // Precaching waits until the page itself has loaded
+  if (document.readyState === 'complete') {
+    register();
+  } else {
+    window.addEventListener('load', register, { once: true });
+  }
+}
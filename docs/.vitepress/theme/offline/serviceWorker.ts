@@ -0,0 +1,223 @@
+/// <reference lib="webworker" />
+import type {
+  OfflinePage,
+  OfflineRequest,
+  OfflineStatus,
+  PrecacheManifest,
+} from './protocol';
+
+// Not part of the theme bundle: `plugins/serviceWorker.ts` transpiles this
+// file into `sw.js` after the site is built, declaring `PRECACHE` above it
+
+declare const self: ServiceWorkerGlobalScope;
+declare const PRECACHE: PrecacheManifest;
+
+const CACHE_PREFIX = 'web-patterns-';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${PRECACHE.version}`;
+const PAGES_CACHE = `${CACHE_PREFIX}pages-${PRECACHE.version}`;
+const DOWNLOAD_CONCURRENCY = 4;
+// `assets/async_promises.md.BPVMazj3.js` and its `.lean.js` twin
+const PAGE_CHUNK = /\.md\.[\w-]+(\.lean)?\.js$/;
+
+const scope = new URL(self.registration.scope);
+// Kept in the pages cache from the start of a download unless it fails, so
+// interrupted downloads resume, and carried over to new versions so their
+// pages are downloaded again. Failed downloads wait for the user to retry
+const DOWNLOAD_REQUESTED = new URL('__offline-download__', scope).href;
+
+let download: Promise<void> | null = null;
+// Pages done by the running download
+let downloaded = 0;
+let failed = false;
+
+async function cacheFirst(request: Request, cacheName: string) {
+  const cached = await caches.match(request, { ignoreSearch: true });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Pages are fetched first so they are never older than the network's
+async function handleNavigation(request: Request) {
+  const url = new URL(request.url);
+  const key = `${url.origin}${url.pathname}`;
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(PAGES_CACHE);
+      await cache.put(key, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached =
+      (await caches.match(key)) ??
+      (await caches.match(new URL('404.html', scope).href));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function handlePageChunk(request: Request) {
+  try {
+    return await cacheFirst(request, PAGES_CACHE);
+  } catch (error) {
+    // Downloads only keep the full chunk of a page, which hydrates its HTML
+    // just like the lean one
+    const full = await caches.match(
+      request.url.replace(/\.lean\.js(\?.*)?$/, '.js'),
+      { ignoreSearch: true }
+    );
+    if (full) return full;
+    throw error;
+  }
+}
+
+async function isDownloaded({ url, chunk }: OfflinePage) {
+  return !!(await caches.match(url)) && !!(await caches.match(chunk));
+}
+
+async function getStatus(): Promise<OfflineStatus> {
+  const count = download
+    ? downloaded
+    : (await Promise.all(PRECACHE.pages.map(isDownloaded))).filter(Boolean)
+        .length;
+  return {
+    type: 'offline-status',
+    downloaded: count,
+    total: PRECACHE.pages.length,
+    downloading: !!download,
+    failed,
+  };
+}
+
+async function broadcastStatus() {
+  const status = await getStatus();
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach((client) => client.postMessage(status));
+}
+
+async function cachePage(cache: Cache, page: OfflinePage) {
+  await Promise.all(
+    [page.url, page.chunk].map(async (url) => {
+      if (!(await caches.match(url))) await cache.add(url);
+    })
+  );
+}
+
+function downloadPages() {
+  download ??= (async () => {
+    downloaded = 0;
+    failed = false;
+    const cache = await caches.open(PAGES_CACHE);
+    await cache.put(DOWNLOAD_REQUESTED, new Response());
+
+    const queue = [...PRECACHE.pages];
+    const work = async () => {
+      for (let page = queue.shift(); page && !failed; page = queue.shift()) {
+        try {
+          await cachePage(cache, page);
+        } catch {
+          failed = true;
+          return;
+        }
+        downloaded++;
+        await broadcastStatus();
+      }
+    };
+    await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, work));
+    if (failed) await cache.delete(DOWNLOAD_REQUESTED);
+
+    download = null;
+    await broadcastStatus();
+  })();
+  return download;
+}
+
+async function handleStatusRequest(client: ExtendableMessageEvent['source']) {
+  const status = await getStatus();
+  client?.postMessage(status);
+
+  // Finish downloads that were interrupted or asked for by an older version,
+  // not the ones that failed
+  const isRequested = await caches.match(DOWNLOAD_REQUESTED, {
+    cacheName: PAGES_CACHE,
+  });
+  if (isRequested && !status.downloading && status.downloaded < status.total) {
+    await downloadPages();
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) =>
+        // Past the HTTP cache, which may still hold the previous `index.html`
+        cache.addAll(
+          PRECACHE.shell.map((url) => new Request(url, { cache: 'reload' }))
+        )
+      )
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      if (await caches.match(DOWNLOAD_REQUESTED)) {
+        const cache = await caches.open(PAGES_CACHE);
+        await cache.put(DOWNLOAD_REQUESTED, new Response());
+      }
+
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter(
+            (name) =>
+              name.startsWith(CACHE_PREFIX) &&
+              name !== SHELL_CACHE &&
+              name !== PAGES_CACHE
+          )
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (
+    request.method !== 'GET' ||
+    url.origin !== scope.origin ||
+    !url.pathname.startsWith(scope.pathname)
+  ) {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (PAGE_CHUNK.test(url.pathname)) {
+    event.respondWith(handlePageChunk(request));
+  } else {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
+
+self.addEventListener('message', (event) => {
+  const request: OfflineRequest = event.data;
+  switch (request?.type) {
+    case 'get-offline-status':
+      event.waitUntil(handleStatusRequest(event.source));
+      break;
+    case 'download-pages':
+      event.waitUntil(downloadPages());
+      break;
+  }
+});
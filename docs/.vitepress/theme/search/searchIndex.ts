@@ -0,0 +1,266 @@
+import type {
+  FuseResult,
+  FuseResultMatch,
+  IFuseOptions,
+  RangeTuple,
+} from 'fuse.js';
+
+// Shapes of `search-index.json`, built by `plugins/searchIndex.ts`
+export interface SearchSymbol {
+  name: string;
+  kind: string;
+}
+
+// A page section; the part before the first heading has no anchor
+export interface SearchDocument {
+  title: string;
+  path: string;
+  heading?: string;
+  anchor?: string;
+  level?: number;
+  content: string;
+  // Declared by the section's code
+  symbols?: SearchSymbol[];
+}
+
+// Entries of `symbol-index.json`: one per place a symbol is defined
+export interface SymbolDefinition extends SearchSymbol {
+  signature: string;
+  title: string;
+  path: string;
+  heading?: string;
+  // Id of the code block declaring the symbol
+  anchor: string;
+}
+
+// Snippets are plain parts, so matches are highlighted without `v-html`
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  title: string;
+  // Page path, plus the anchor of the section
+  link: string;
+  heading?: string;
+  snippet: SnippetPart[];
+  // 0 is a perfect match
+  score: number;
+  // Set on symbol search results
+  symbol?: SearchSymbol;
+}
+
+export type Searcher = (query: string, limit?: number) => SearchResult[];
+
+const SNIPPET_RADIUS = 60;
+const DEFAULT_LIMIT = 10;
+// Names defined on several pages list every definition
+const SYMBOL_LIMIT = 20;
+// Queries starting with `#` or `@` search the symbol table
+const SYMBOL_PREFIX = /^\s*[#@]/;
+
+const fuseOptions: IFuseOptions<SearchDocument> = {
+  keys: [
+    { name: 'title', weight: 3 },
+    { name: 'heading', weight: 2 },
+    { name: 'symbols.name', weight: 2 },
+    { name: 'content', weight: 1 },
+  ],
+  includeMatches: true,
+  includeScore: true,
+  // Match anywhere in the body, not only near its start
+  ignoreLocation: true,
+  threshold: 0.3,
+  minMatchCharLength: 2,
+};
+
+const symbolFuseOptions: IFuseOptions<SymbolDefinition> = {
+  keys: ['name'],
+  includeMatches: true,
+  includeScore: true,
+  ignoreLocation: true,
+  threshold: 0.3,
+};
+
+const indexes = new Map<string, Promise<unknown>>();
+
+// Fetched once per URL; a failed load is retried on the next call
+function loadIndex<T>(url: string): Promise<T> {
+  let index = indexes.get(url);
+  if (!index) {
+    index = fetch(url).then((response) => {
+      if (!response.ok) {
+        throw new Error(`Failed to load ${url}: ${response.status}`);
+      }
+      return response.json();
+    });
+    index.catch(() => indexes.delete(url));
+    indexes.set(url, index);
+  }
+  return index as Promise<T>;
+}
+
+export function loadSearchIndex(url: string): Promise<SearchDocument[]> {
+  return loadIndex(url);
+}
+
+export function loadSymbolIndex(url: string): Promise<SymbolDefinition[]> {
+  return loadIndex(url);
+}
+
+// The symbol name of a `#` or `@` query, or null for a text query
+export function parseSymbolQuery(query: string): string | null {
+  return SYMBOL_PREFIX.test(query)
+    ? query.replace(SYMBOL_PREFIX, '').trim()
+    : null;
+}
+
+export async function createSearcher(
+  documents: SearchDocument[]
+): Promise<Searcher> {
+  // fuse.js is only downloaded once someone searches
+  const { default: Fuse } = await import('fuse.js');
+  const fuse = new Fuse(documents, fuseOptions);
+
+  return (query, limit = DEFAULT_LIMIT) => {
+    const trimmed = query.trim();
+    if (!trimmed) return [];
+
+    // Every section of a page shares its title; a section matching on the
+    // title alone is left out once the page is listed
+    const pages = new Set<string>();
+    return fuse
+      .search(trimmed, { limit: limit * 3 })
+      .filter(({ item, matches = [] }) => {
+        const isTitleOnly = matches.every(({ key }) => key === 'title');
+        if (isTitleOnly && pages.has(item.path)) return false;
+        pages.add(item.path);
+        return true;
+      })
+      .slice(0, limit)
+      .map(toResult);
+  };
+}
+
+export async function createSymbolSearcher(
+  definitions: SymbolDefinition[]
+): Promise<Searcher> {
+  const { default: Fuse } = await import('fuse.js');
+  const fuse = new Fuse(definitions, symbolFuseOptions);
+
+  return (name, limit = SYMBOL_LIMIT) => {
+    const trimmed = name.trim();
+    return trimmed ? fuse.search(trimmed, { limit }).map(toSymbolResult) : [];
+  };
+}
+
+function getLength([start, end]: RangeTuple) {
+  return end - start + 1;
+}
+
+function getLongest(indices: ReadonlyArray<RangeTuple>) {
+  return Math.max(0, ...indices.map(getLength));
+}
+
+// The match with the longest matched range
+function findBestMatch(matches: ReadonlyArray<FuseResultMatch>, key: string) {
+  return matches
+    .filter((match) => match.key === key)
+    .sort((a, b) => getLongest(b.indices) - getLongest(a.indices))[0];
+}
+
+function toResult({
+  item,
+  matches = [],
+  score = 1,
+}: FuseResult<SearchDocument>): SearchResult {
+  const contentMatch = findBestMatch(matches, 'content');
+  const symbolMatch = findBestMatch(matches, 'symbols.name');
+  const symbol =
+    symbolMatch?.refIndex !== undefined
+      ? item.symbols?.[symbolMatch.refIndex]
+      : undefined;
+
+  let snippet: SnippetPart[];
+  if (contentMatch) {
+    snippet = buildSnippet(item.content, contentMatch.indices);
+  } else if (symbol && symbolMatch) {
+    snippet = [
+      { text: `${symbol.kind} `, highlight: false },
+      ...buildSnippet(symbol.name, symbolMatch.indices),
+    ];
+  } else {
+    snippet = buildSnippet(item.content, []);
+  }
+
+  return {
+    title: item.title,
+    link: item.anchor ? `${item.path}#${item.anchor}` : item.path,
+    heading: item.heading,
+    snippet,
+    score,
+  };
+}
+
+function toSymbolResult({
+  item,
+  matches = [],
+  score = 1,
+}: FuseResult<SymbolDefinition>): SearchResult {
+  // Signatures read `<keyword> <name>…`; highlight the name inside it
+  const offset = item.signature.indexOf(` ${item.name}`) + 1;
+  const indices = offset
+    ? (findBestMatch(matches, 'name')?.indices ?? []).map(
+        ([start, end]): RangeTuple => [start + offset, end + offset]
+      )
+    : [];
+
+  return {
+    title: item.title,
+    link: `${item.path}#${item.anchor}`,
+    heading: item.heading,
+    snippet: buildSnippet(item.signature, indices, item.signature.length),
+    score,
+    symbol: { name: item.name, kind: item.kind },
+  };
+}
+
+// The text around the longest match, with every match inside it highlighted
+export function buildSnippet(
+  text: string,
+  indices: ReadonlyArray<RangeTuple>,
+  radius = SNIPPET_RADIUS
+): SnippetPart[] {
+  const ranges = [...indices].sort((a, b) => a[0] - b[0]);
+  const longest = ranges.reduce<RangeTuple>(
+    (best, range) => (getLength(range) > getLength(best) ? range : best),
+    [0, -1]
+  );
+
+  const start = Math.max(0, longest[0] - radius);
+  const end = Math.min(text.length, longest[1] + 1 + radius * 2);
+  const parts: SnippetPart[] = [];
+  let cursor = start;
+
+  ranges.forEach(([from, to]) => {
+    const matchStart = Math.max(from, cursor);
+    const matchEnd = Math.min(to + 1, end);
+    if (matchStart >= matchEnd) return;
+
+    if (matchStart > cursor) {
+      parts.push({ text: text.slice(cursor, matchStart), highlight: false });
+    }
+    parts.push({ text: text.slice(matchStart, matchEnd), highlight: true });
+    cursor = matchEnd;
+  });
+  if (cursor < end) {
+    parts.push({ text: text.slice(cursor, end), highlight: false });
+  }
+
+  if (parts.length > 0) {
+    if (start > 0) parts[0].text = `…${parts[0].text}`;
+    if (end < text.length) parts[parts.length - 1].text += '…';
+  }
+  return parts;
+}
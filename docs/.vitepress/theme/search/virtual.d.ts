@@ -0,0 +1,5 @@
+// Provided by `searchIndexPlugin` in `docs/.vitepress/plugins/searchIndex.ts`
+declare module 'virtual:search-index' {
+  export const searchIndexUrl: string;
+  export const symbolIndexUrl: string;
+}
@@ -1,12 +1,12 @@
-import { createApp, h } from 'vue';
-import Tooltip from './components/Tooltip.vue';
-
 const isBrowser = typeof window !== 'undefined';
 
-export function createTooltipPortal(): HTMLDivElement | null {
+export function createTooltipPortal(
+  parent?: HTMLElement
+): HTMLDivElement | null {
   if (!isBrowser) return null;
 
-  const tooltipContainer = document.createElement('div');
+  const target = parent ?? document.body;
+  const tooltipContainer = target.ownerDocument.createElement('div');
   tooltipContainer.className = 'tooltip-portal';
   tooltipContainer.style.cssText = `
     position: fixed;
@@ -17,71 +17,10 @@ export function createTooltipPortal(): HTMLDivElement | null {
     pointer-events: none;
     z-index: var(--vp-z-index-tooltip);
   `;
-  document.body.appendChild(tooltipContainer);
+  target.appendChild(tooltipContainer);
   return tooltipContainer;
 }
 
-export function showTooltip(
-  tooltipContainer: HTMLDivElement | null,
-  content: string,
-  x: number,
-  y: number,
-  type: 'error' | 'default' = 'default'
-): HTMLDivElement | null {
-  if (!isBrowser || !tooltipContainer) return null;
-
-  const tooltipMount = document.createElement('div');
-  tooltipMount.style.position = 'fixed';
-
-  // Create the tooltip first to get its dimensions
-  const app = createApp({
-    render() {
-      return h(Tooltip, {
-        content,
-        position: 'above', // default position
-        type,
-        onMounted: (el: HTMLElement) => {
-          const tooltipRect = el.getBoundingClientRect();
-          const viewportWidth = window.innerWidth;
-          const viewportHeight = window.innerHeight;
-
-          // Calculate available space
-          const spaceAbove = y;
-          const spaceBelow = viewportHeight - y;
-          const tooltipHeight = tooltipRect.height + 16; // Add padding
-
-          // Determine position (above or below)
-          const position =
-            spaceAbove > tooltipHeight || spaceAbove > spaceBelow
-              ? 'above'
-              : 'below';
-
-          // Calculate x position
-          let finalX = Math.min(
-            Math.max(x, tooltipRect.width / 2 + 10), // Don't go off left edge
-            viewportWidth - tooltipRect.width / 2 - 10 // Don't go off right edge
-          );
-
-          // Calculate y position
-          let finalY = position === 'above' ? y : y;
-
-          // Update tooltip position and props
-          tooltipMount.style.left = `${finalX}px`;
-          tooltipMount.style.top = `${finalY}px`;
-
-          // Update tooltip position prop
-          el.__vue__?.exposed?.updatePosition(position);
-        },
-      });
-    },
-  });
-
-  app.mount(tooltipMount);
-  tooltipContainer.appendChild(tooltipMount);
-
-  return tooltipMount;
-}
-
 export function hideTooltip(tooltipEl: HTMLElement | null): void {
   if (isBrowser && tooltipEl) {
     const app = tooltipEl.__vue_app__;
@@ -1,4 +1,16 @@
-import type { CustomTooltip } from '../types/tooltip';
+import type { CustomTooltip, TooltipComponentRef } from '../types/tooltip';
+
+// Content referring to a registered tooltip component by name
+export function isComponentContent(
+  content: CustomTooltip['content']
+): content is { component: TooltipComponentRef } {
+  return (
+    typeof content === 'object' &&
+    content !== null &&
+    'component' in content &&
+    typeof (content.component as TooltipComponentRef)?.name === 'string'
+  );
+}
 
 export function createAdHocTooltip(config: CustomTooltip): CustomTooltip {
   // Validate required fields
@@ -0,0 +1,194 @@
+import { onTooltipEvent, type TooltipEventTarget } from './events';
+
+// What readers did with a tooltip; stays in the reader's browser
+export interface TooltipAnalyticsRecord extends TooltipEventTarget {
+  type: 'open' | 'close' | 'pin';
+  at: number;
+  // Only on `close`: how long the tooltip was shown, in ms
+  dwell?: number;
+}
+
+// Where records are kept; implement it to send them somewhere else
+export interface TooltipAnalyticsBackend {
+  record(record: TooltipAnalyticsRecord): Promise<void>;
+  getAll(): Promise<TooltipAnalyticsRecord[]>;
+  clear(): Promise<void>;
+}
+
+export interface TermStats {
+  term: string;
+  kind: TooltipEventTarget['kind'];
+  opens: number;
+  pins: number;
+  // Total time shown, in ms
+  dwell: number;
+}
+
+const STORAGE_KEY = 'tooltip-analytics';
+// Every open is recorded; keep the newest records only, in either backend
+const MAX_STORED_RECORDS = 5000;
+const DATABASE_NAME = 'tooltip-analytics';
+const STORE_NAME = 'records';
+
+export function createLocalStorageBackend(
+  storage: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> = localStorage,
+  key = STORAGE_KEY
+): TooltipAnalyticsBackend {
+  const read = (): TooltipAnalyticsRecord[] => {
+    try {
+      return JSON.parse(storage.getItem(key) ?? '[]');
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    async record(record) {
+      const records = [...read(), record].slice(-MAX_STORED_RECORDS);
+      storage.setItem(key, JSON.stringify(records));
+    },
+    async getAll() {
+      return read();
+    },
+    async clear() {
+      storage.removeItem(key);
+    },
+  };
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Delete the `count` oldest records; keys grow with every record added
+function deleteOldest(records: IDBObjectStore, count: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let left = count;
+    const req = records.openKeyCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor || left-- <= 0) {
+        resolve();
+        return;
+      }
+      records.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function createIndexedDBBackend(
+  factory: IDBFactory = indexedDB,
+  name = DATABASE_NAME
+): TooltipAnalyticsBackend {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const req = factory.open(name, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE_NAME, { autoIncrement: true });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return database;
+  };
+
+  const store = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    async record(record) {
+      const records = await store('readwrite');
+      await request(records.add(record));
+      const excess = (await request(records.count())) - MAX_STORED_RECORDS;
+      if (excess > 0) await deleteOldest(records, excess);
+    },
+    async getAll() {
+      return request((await store('readonly')).getAll());
+    },
+    async clear() {
+      await request((await store('readwrite')).clear());
+    },
+  };
+}
+
+// IndexedDB where available, since it is not limited to a few MB
+export function createDefaultBackend(): TooltipAnalyticsBackend {
+  return typeof indexedDB !== 'undefined'
+    ? createIndexedDBBackend()
+    : createLocalStorageBackend();
+}
+
+// Record tooltip events into `backend` until the returned function is called
+export function recordTooltipAnalytics(
+  backend: TooltipAnalyticsBackend
+): () => void {
+  const save = (record: TooltipAnalyticsRecord) => {
+    // Losing a record must never break a tooltip
+    backend.record(record).catch(() => {});
+  };
+
+  const offs = [
+    onTooltipEvent('tooltip-open', ({ term, page, kind }) =>
+      save({ type: 'open', term, page, kind, at: Date.now() })
+    ),
+    onTooltipEvent('tooltip-close', ({ term, page, kind, dwell }) =>
+      save({ type: 'close', term, page, kind, dwell, at: Date.now() })
+    ),
+    onTooltipEvent('tooltip-pin', ({ term, page, kind }) =>
+      save({ type: 'pin', term, page, kind, at: Date.now() })
+    ),
+  ];
+
+  return () => offs.forEach((off) => off());
+}
+
+// Per page, its terms ordered from most to least opened
+export function summarizeTooltipAnalytics(
+  records: TooltipAnalyticsRecord[]
+): Map<string, TermStats[]> {
+  const pages = new Map<string, Map<string, TermStats>>();
+
+  records.forEach(({ type, term, page, kind, dwell = 0 }) => {
+    const terms = pages.get(page) ?? new Map<string, TermStats>();
+    pages.set(page, terms);
+
+    const id = `${kind}:${term}`;
+    const stats = terms.get(id) ?? { term, kind, opens: 0, pins: 0, dwell: 0 };
+    terms.set(id, stats);
+
+    if (type === 'open') stats.opens++;
+    if (type === 'pin') stats.pins++;
+    stats.dwell += dwell;
+  });
+
+  return new Map(
+    [...pages].map(([page, terms]) => [
+      page,
+      [...terms.values()].sort(
+        (a, b) => b.opens - a.opens || b.dwell - a.dwell
+      ),
+    ])
+  );
+}
+
+export async function exportTooltipAnalytics(
+  backend: TooltipAnalyticsBackend
+): Promise<string> {
+  const records = await backend.getAll();
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      records,
+      pages: Object.fromEntries(summarizeTooltipAnalytics(records)),
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,69 @@
+import {
+  defineAsyncComponent,
+  defineComponent,
+  h,
+  type Component,
+  type PropType,
+} from 'vue';
+import { isComponentContent } from './adhocTooltips';
+import { globalTooltips } from './config';
+
+export type TooltipComponentLoader = () => Promise<
+  Component | { default: Component }
+>;
+
+// Built-in components; loaded only when a tooltip showing them opens
+const loaders = new Map<string, TooltipComponentLoader>([
+  [
+    'promise-race-demo',
+    () => import('../components/tooltips/PromiseRaceDemo.vue'),
+  ],
+]);
+
+const asyncComponents = new Map<string, Component>();
+
+export function registerTooltipComponent(
+  name: string,
+  loader: TooltipComponentLoader
+) {
+  loaders.set(name, loader);
+  asyncComponents.delete(name);
+}
+
+export async function loadTooltipComponent(name: string): Promise<Component> {
+  const loader = loaders.get(name);
+  if (!loader) {
+    throw new Error(`Unknown tooltip component: ${name}`);
+  }
+
+  const loaded = await loader();
+  return 'default' in loaded ? loaded.default : loaded;
+}
+
+const TooltipComponentError = defineComponent({
+  props: { error: Object as PropType<Error> },
+  setup(props) {
+    return () => h('span', { class: 'message-text' }, props.error?.message);
+  },
+});
+
+// An async wrapper per name, so re-renders never load a component twice
+export function getTooltipComponent(name: string): Component {
+  let component = asyncComponents.get(name);
+  if (!component) {
+    component = defineAsyncComponent({
+      loader: () => loadTooltipComponent(name),
+      errorComponent: TooltipComponentError,
+    });
+    asyncComponents.set(name, component);
+  }
+  return component;
+}
+
+// Global tooltips may hold a component directly; the markdown plugin refers
+// to it by the tooltip's id
+globalTooltips.forEach(({ id, content }) => {
+  if (typeof content !== 'string' && !isComponentContent(content)) {
+    registerTooltipComponent(id, async () => content);
+  }
+});
@@ -0,0 +1,51 @@
+// The tooltip an event is about
+export interface TooltipEventTarget {
+  // `data-tooltip-id` of trigger words, else the trigger's text
+  term: string;
+  page: string;
+  kind: 'error' | 'default';
+}
+
+// Events the tooltip system reports to UI outside of it, by name
+export interface TooltipEventMap {
+  'tooltip-open': TooltipEventTarget & { isClickOpened: boolean };
+  // `dwell` is how long the tooltip was shown, in ms
+  'tooltip-close': TooltipEventTarget & { dwell: number };
+  'tooltip-pin': TooltipEventTarget;
+  // A chunk of triggers was hydrated
+  'hydration-progress': { processed: number; total: number };
+  'hydration-done': { total: number };
+}
+
+export type TooltipEventType = keyof TooltipEventMap;
+
+type Listener<K extends TooltipEventType> = (
+  detail: TooltipEventMap[K]
+) => void;
+
+// Listeners by event name, each typed by the detail of its event
+const listeners: { [K in TooltipEventType]: Set<Listener<K>> } = {
+  'tooltip-open': new Set(),
+  'tooltip-close': new Set(),
+  'tooltip-pin': new Set(),
+  'hydration-progress': new Set(),
+  'hydration-done': new Set(),
+};
+
+// Returns a function removing the listener again
+export function onTooltipEvent<K extends TooltipEventType>(
+  type: K,
+  listener: Listener<K>
+): () => void {
+  const set: Set<Listener<K>> = listeners[type];
+  set.add(listener);
+  return () => set.delete(listener);
+}
+
+export function emitTooltipEvent<K extends TooltipEventType>(
+  type: K,
+  detail: TooltipEventMap[K]
+) {
+  const set: Set<Listener<K>> = listeners[type];
+  set.forEach((listener) => listener(detail));
+}
@@ -0,0 +1,88 @@
+import { emitTooltipEvent } from './events';
+
+export interface HydrationDeadline {
+  timeRemaining(): number;
+}
+
+// Runs work when the browser is idle, like `requestIdleCallback`
+export interface HydrationScheduler {
+  request(callback: (deadline: HydrationDeadline) => void): number;
+  cancel(id: number): void;
+}
+
+export interface HydrationOptions {
+  scheduler?: HydrationScheduler;
+  // Upper bound of triggers per idle callback
+  chunkSize?: number;
+}
+
+const CHUNK_SIZE = 200;
+// Idle callbacks still run this soon on a busy page
+const IDLE_TIMEOUT = 500;
+
+// Safari has no `requestIdleCallback`; a timeout yields to the page as well
+const idleScheduler: HydrationScheduler =
+  typeof window !== 'undefined' && 'requestIdleCallback' in window
+    ? {
+        request: (callback) =>
+          window.requestIdleCallback(callback, { timeout: IDLE_TIMEOUT }),
+        cancel: (id) => window.cancelIdleCallback(id),
+      }
+    : {
+        request: (callback) =>
+          window.setTimeout(() => callback({ timeRemaining: () => 1 }), 1),
+        cancel: (id) => window.clearTimeout(id),
+      };
+
+// Make an element with a tooltip payload a trigger the tooltip manager and
+// keyboard users can reach, e.g. one written as raw HTML in markdown
+export function hydrateTrigger(element: HTMLElement) {
+  element.classList.add('tooltip-trigger');
+  if (!element.hasAttribute('tabindex')) element.tabIndex = 0;
+  element.dataset.tooltipHydrated = '';
+}
+
+// Hydrate every trigger under `root` in idle-time chunks, reporting progress
+// through `hydration-progress` and `hydration-done` events. Returns a
+// function cancelling the remaining work.
+export function hydrateTriggers(
+  root: Document | HTMLElement,
+  { scheduler = idleScheduler, chunkSize = CHUNK_SIZE }: HydrationOptions = {}
+): () => void {
+  const triggers = [
+    ...root.querySelectorAll<HTMLElement>(
+      '[data-tooltip]:not([data-tooltip-hydrated])'
+    ),
+  ];
+  const total = triggers.length;
+  let processed = 0;
+  let pending: number | null = null;
+
+  const work = (deadline: HydrationDeadline) => {
+    pending = null;
+    const end = Math.min(processed + chunkSize, total);
+    // Always make progress, even when the idle period is already used up
+    do {
+      const trigger = triggers[processed++];
+      if (trigger.isConnected) hydrateTrigger(trigger);
+    } while (processed < end && deadline.timeRemaining() > 0);
+
+    emitTooltipEvent('hydration-progress', { processed, total });
+    if (processed < total) {
+      pending = scheduler.request(work);
+    } else {
+      emitTooltipEvent('hydration-done', { total });
+    }
+  };
+
+  if (total > 0) {
+    pending = scheduler.request(work);
+  } else {
+    emitTooltipEvent('hydration-done', { total });
+  }
+
+  return () => {
+    if (pending !== null) scheduler.cancel(pending);
+    pending = null;
+  };
+}
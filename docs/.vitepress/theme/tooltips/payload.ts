@@ -0,0 +1,80 @@
+import type {
+  TooltipLink,
+  TooltipPayload,
+  TooltipSection,
+  TooltipSeverity,
+} from '../types/tooltip';
+
+export const TOOLTIP_PAYLOAD_VERSION = 1;
+
+const severities: TooltipSeverity[] = ['error', 'warning', 'info', 'success'];
+
+export function createTooltipPayload(
+  sections: TooltipSection[]
+): TooltipPayload {
+  return { version: TOOLTIP_PAYLOAD_VERSION, sections };
+}
+
+// Serialize a payload for a `data-tooltip` attribute; callers still escape the
+// result for HTML
+export function encodeTooltipPayload(payload: TooltipPayload): string {
+  return JSON.stringify(payload);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isLink(value: unknown): value is TooltipLink {
+  return (
+    isRecord(value) &&
+    typeof value.label === 'string' &&
+    typeof value.href === 'string'
+  );
+}
+
+function isSection(value: unknown): value is TooltipSection {
+  if (!isRecord(value)) return false;
+  if (!severities.some((severity) => severity === value.severity)) {
+    return false;
+  }
+
+  const { text, badge, code, component, links } = value;
+  return (
+    (text === undefined || typeof text === 'string') &&
+    (badge === undefined ||
+      (isRecord(badge) && typeof badge.label === 'string')) &&
+    (code === undefined || (isRecord(code) && typeof code.code === 'string')) &&
+    (component === undefined ||
+      (isRecord(component) &&
+        typeof component.name === 'string' &&
+        (component.props === undefined || isRecord(component.props)))) &&
+    (links === undefined || (Array.isArray(links) && links.every(isLink)))
+  );
+}
+
+// Parse a `data-tooltip` value. Plain text, as used by hand-written triggers,
+// becomes a single info section; malformed or unknown-version JSON throws.
+export function decodeTooltipPayload(raw: string): TooltipPayload {
+  if (!raw.trimStart().startsWith('{')) {
+    return createTooltipPayload([{ severity: 'info', text: raw }]);
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid tooltip payload: ${(error as Error).message}`);
+  }
+
+  const version = isRecord(value) ? value.version : undefined;
+  if (!isRecord(value) || version !== TOOLTIP_PAYLOAD_VERSION) {
+    throw new Error(`Unsupported tooltip payload version: ${version}`);
+  }
+  const { sections } = value;
+  if (!Array.isArray(sections) || !sections.every(isSection)) {
+    throw new Error('Invalid tooltip payload: malformed sections');
+  }
+
+  return { version, sections };
+}
@@ -0,0 +1,216 @@
+import type { TooltipPosition } from '../types/tooltip';
+
+export interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface PlacementOptions {
+  position: TooltipPosition;
+  // Gap between trigger and tooltip
+  offset: number;
+  // Area the tooltip has to stay inside: the viewport, since tooltips render
+  // in a fixed portal that no ancestor of the trigger clips
+  boundary: Box;
+  // Visible part of the trigger's scroll containers, only used to tell
+  // whether the trigger is scrolled out of view. Defaults to `boundary`
+  clip?: Box;
+  // Minimum distance kept from the boundary edges
+  padding?: number;
+  // Minimum distance of the arrow from the tooltip corners
+  arrowPadding?: number;
+}
+
+export interface Placement {
+  // The side actually used, after flipping
+  side: TooltipPosition;
+  // Tooltip box in viewport coordinates
+  box: Box;
+  // Arrow position along the tooltip edge facing the trigger
+  arrowOffset: number;
+  // The trigger is scrolled out of the clipped area
+  triggerHidden: boolean;
+}
+
+const opposites: Record<TooltipPosition, TooltipPosition> = {
+  top: 'bottom',
+  bottom: 'top',
+  left: 'right',
+  right: 'left',
+};
+
+const perpendiculars: Record<TooltipPosition, TooltipPosition[]> = {
+  top: ['right', 'left'],
+  bottom: ['right', 'left'],
+  left: ['top', 'bottom'],
+  right: ['top', 'bottom'],
+};
+
+const DEFAULT_PADDING = 8;
+const DEFAULT_ARROW_PADDING = 14;
+
+export function isVertical(side: TooltipPosition) {
+  return side === 'top' || side === 'bottom';
+}
+
+function clamp(value: number, min: number, max: number) {
+  // A tooltip larger than the boundary keeps its start edge visible
+  return Math.max(min, Math.min(value, Math.max(min, max)));
+}
+
+// Room between the trigger and the boundary on `side`
+function getSpace(trigger: Box, boundary: Box, side: TooltipPosition) {
+  switch (side) {
+    case 'top':
+      return trigger.top - boundary.top;
+    case 'bottom':
+      return boundary.bottom - trigger.bottom;
+    case 'left':
+      return trigger.left - boundary.left;
+    case 'right':
+      return boundary.right - trigger.right;
+  }
+}
+
+function fits(
+  trigger: Box,
+  size: Size,
+  side: TooltipPosition,
+  { boundary, offset, padding = DEFAULT_PADDING }: PlacementOptions
+) {
+  const needed = (isVertical(side) ? size.height : size.width) + offset;
+  return getSpace(trigger, boundary, side) - padding >= needed;
+}
+
+// The preferred side if it fits, else its opposite, else a perpendicular one;
+// when nothing fits, the roomier of the preferred side and its opposite
+export function chooseSide(
+  trigger: Box,
+  size: Size,
+  options: PlacementOptions
+): TooltipPosition {
+  const { position, boundary } = options;
+  const candidates = [
+    position,
+    opposites[position],
+    ...perpendiculars[position],
+  ];
+
+  const fitting = candidates.find((side) => fits(trigger, size, side, options));
+  if (fitting) return fitting;
+
+  const opposite = opposites[position];
+  return getSpace(trigger, boundary, opposite) >
+    getSpace(trigger, boundary, position)
+    ? opposite
+    : position;
+}
+
+export function computePlacement(
+  trigger: Box,
+  size: Size,
+  options: PlacementOptions
+): Placement {
+  const {
+    offset,
+    boundary,
+    clip = boundary,
+    padding = DEFAULT_PADDING,
+    arrowPadding = DEFAULT_ARROW_PADDING,
+  } = options;
+  const side = chooseSide(trigger, size, options);
+  const centerX = (trigger.left + trigger.right) / 2;
+  const centerY = (trigger.top + trigger.bottom) / 2;
+
+  let left: number;
+  let top: number;
+  let arrowOffset: number;
+
+  if (isVertical(side)) {
+    top =
+      side === 'top'
+        ? trigger.top - offset - size.height
+        : trigger.bottom + offset;
+    // Shift along the cross axis to stay inside the boundary
+    left = clamp(
+      centerX - size.width / 2,
+      boundary.left + padding,
+      boundary.right - padding - size.width
+    );
+    arrowOffset = clamp(
+      centerX - left,
+      arrowPadding,
+      size.width - arrowPadding
+    );
+  } else {
+    left =
+      side === 'left'
+        ? trigger.left - offset - size.width
+        : trigger.right + offset;
+    top = clamp(
+      centerY - size.height / 2,
+      boundary.top + padding,
+      boundary.bottom - padding - size.height
+    );
+    arrowOffset = clamp(
+      centerY - top,
+      arrowPadding,
+      size.height - arrowPadding
+    );
+  }
+
+  return {
+    side,
+    box: { left, top, right: left + size.width, bottom: top + size.height },
+    arrowOffset,
+    triggerHidden:
+      trigger.bottom < clip.top ||
+      trigger.top > clip.bottom ||
+      trigger.right < clip.left ||
+      trigger.left > clip.right,
+  };
+}
+
+function intersect(a: Box, b: Box): Box {
+  return {
+    left: Math.max(a.left, b.left),
+    top: Math.max(a.top, b.top),
+    right: Math.min(a.right, b.right),
+    bottom: Math.min(a.bottom, b.bottom),
+  };
+}
+
+const clippingOverflow = /(auto|scroll|hidden|clip)/;
+
+export function getViewport(element: HTMLElement): Box {
+  const view = element.ownerDocument.defaultView!;
+  return { left: 0, top: 0, right: view.innerWidth, bottom: view.innerHeight };
+}
+
+// The viewport narrowed down to every clipping ancestor of `element`, e.g. a
+// scrolled code block or sidebar. Only `element` is clipped by them, not its
+// tooltip, so this is the `clip` of a placement and never its `boundary`
+export function getClippingBoundary(element: HTMLElement): Box {
+  const view = element.ownerDocument.defaultView!;
+  let boundary = getViewport(element);
+
+  for (
+    let parent = element.parentElement;
+    parent && parent !== element.ownerDocument.body;
+    parent = parent.parentElement
+  ) {
+    const { overflow, overflowX, overflowY } = view.getComputedStyle(parent);
+    if (clippingOverflow.test(overflow + overflowX + overflowY)) {
+      boundary = intersect(boundary, parent.getBoundingClientRect());
+    }
+  }
+
+  return boundary;
+}
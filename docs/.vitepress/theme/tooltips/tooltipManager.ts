@@ -0,0 +1,1239 @@
+import { createApp, h, reactive } from 'vue';
+import Tooltip from '../components/Tooltip.vue';
+import { createTooltipPortal } from '../tooltipPortal';
+import type { TooltipPosition, TooltipTheme } from '../types/tooltip';
+import { emitTooltipEvent, type TooltipEventTarget } from './events';
+import {
+  computePlacement,
+  getClippingBoundary,
+  getViewport,
+  isVertical,
+  type Box,
+  type Placement,
+} from './positioning';
+
+// idle → showing → shown → hiding → idle; `idle` tooltips have no entry
+export type TooltipState = 'idle' | 'showing' | 'shown' | 'hiding';
+
+// The input device used last; touch has no hover, keyboard moves focus
+export type InputModality = 'mouse' | 'touch' | 'pen' | 'keyboard';
+
+export interface TooltipClock {
+  now(): number;
+  setTimeout(callback: () => void, delay: number): number;
+  clearTimeout(id: number): void;
+}
+
+// How a trigger asks for its tooltip to look, from its `data-tooltip-*`
+// attributes
+export interface TooltipAppearance {
+  position: TooltipPosition;
+  offset: number;
+  theme?: TooltipTheme;
+  customClass?: string;
+  // Selector of the element to mount into instead of the shared portal
+  portalTarget?: string;
+}
+
+// Geometry is handled by the manager; the renderer only styles the content
+export interface TooltipRenderProps
+  extends Pick<TooltipAppearance, 'theme' | 'customClass'> {
+  content: string;
+  type: 'error' | 'default';
+  isClickOpened: boolean;
+  isPinned: boolean;
+  onClose: () => void;
+  onTogglePin: () => void;
+}
+
+// Mounts tooltip content into `container` and returns its unmount function
+export type TooltipRenderer = (
+  container: HTMLElement,
+  props: TooltipRenderProps
+) => () => void;
+
+export type TooltipStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export interface TooltipManagerOptions {
+  // Where listeners are attached and the portal is created
+  root?: Document | HTMLElement;
+  clock?: TooltipClock;
+  render?: TooltipRenderer;
+  // Keeps pinned tooltips per page; `null` disables persistence
+  storage?: TooltipStorage | null;
+}
+
+// A pinned tooltip as stored, with how far it was dragged from its anchor
+export interface StoredPin {
+  key: string;
+  x: number;
+  y: number;
+}
+
+interface TooltipEntry {
+  // Per trigger, see `getTriggerKey`
+  id: string;
+  content: string;
+  trigger: HTMLElement;
+  state: TooltipState;
+  isClickOpened: boolean;
+  // Pinned tooltips stay open until closed explicitly
+  isPinned: boolean;
+  // Drag distance from the computed placement
+  offset: { x: number; y: number };
+  props: TooltipRenderProps | null;
+  openedAt: number;
+  mount: HTMLElement | null;
+  unmount: (() => void) | null;
+  timer: number | null;
+  // Closes a hover tooltip the pointer moved away from
+  closeTimer: number | null;
+  placement: Placement | null;
+  // Repositions when async content changes the tooltip's size
+  resizeObserver: ResizeObserver | null;
+}
+
+interface TooltipDrag {
+  entry: TooltipEntry;
+  startX: number;
+  startY: number;
+  originX: number;
+  originY: number;
+}
+
+// A touch on a trigger, until it turns into a tap, long-press or scroll
+interface TouchPress {
+  trigger: HTMLElement;
+  x: number;
+  y: number;
+  timer: number | null;
+}
+
+const positions: TooltipPosition[] = ['top', 'bottom', 'left', 'right'];
+const themes: TooltipTheme[] = ['light', 'dark', 'custom'];
+
+const SHOW_DELAY = 0;
+const DEFAULT_OFFSET = 8;
+const HIDE_DELAY = 100;
+
+// Adjusted constants for better UX
+const TOOLTIP_CLOSE_DISTANCE = 200;
+const TOOLTIP_CLOSE_DELAY = 800;
+const TOOLTIP_HOVER_BUFFER = 100;
+const TOOLTIP_CORRIDOR_WIDTH = 150; // Width of safe movement corridor
+
+// Touch gestures
+const LONG_PRESS_DELAY = 500;
+const TAP_MOVE_TOLERANCE = 10;
+// Viewports up to this width show tooltips as a bottom sheet
+const BOTTOM_SHEET_MAX_WIDTH = 640;
+
+const STORAGE_KEY = 'tooltip-pins';
+
+const DEBUG_HOVER_ZONES = false; // Toggle for visualization
+
+const browserClock: TooltipClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => window.setTimeout(callback, delay),
+  clearTimeout: (id) => window.clearTimeout(id),
+};
+
+function getSessionStorage(): TooltipStorage | null {
+  try {
+    return window.sessionStorage;
+  } catch {
+    // Unavailable outside browsers and in some privacy modes
+    return null;
+  }
+}
+
+// `type` and `isClickOpened` are for custom renderers: Tooltip.vue reads the
+// severity from the payload and keeps no state of how it was opened
+const renderTooltip: TooltipRenderer = (container, props) => {
+  const app = createApp({
+    render() {
+      return h(Tooltip, {
+        content: props.content,
+        theme: props.theme,
+        customClass: props.customClass,
+        isPinned: props.isPinned,
+        onClose: props.onClose,
+        onTogglePin: props.onTogglePin,
+      });
+    },
+  });
+  app.mount(container);
+  return () => app.unmount();
+};
+
+export function hashString(str: string): string {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash |= 0; // Convert to 32bit integer
+  }
+  return hash.toString();
+}
+
+function createDebugElement(rect: DOMRect, color: string): HTMLElement {
+  const el = document.createElement('div');
+  el.style.cssText = `
+    position: fixed;
+    left: ${rect.left}px;
+    top: ${rect.top}px;
+    width: ${rect.width}px;
+    height: ${rect.height}px;
+    background-color: ${color};
+    opacity: 0.1;
+    pointer-events: none;
+    z-index: 9998;
+  `;
+  el.classList.add('tooltip-debug-zone');
+  return el;
+}
+
+function visualizeHoverZones(bufferedTooltip: Box, corridor: Box) {
+  if (!DEBUG_HOVER_ZONES) return;
+
+  // Remove any existing debug elements
+  document.querySelectorAll('.tooltip-debug-zone').forEach((el) => el.remove());
+
+  [
+    [bufferedTooltip, 'blue'],
+    [corridor, 'green'],
+  ].forEach(([box, color]) => {
+    const { left, top, right, bottom } = box as Box;
+    document.body.appendChild(
+      createDebugElement(
+        new DOMRect(left, top, right - left, bottom - top),
+        color as string
+      )
+    );
+  });
+}
+
+function isInside(x: number, y: number, box: Box) {
+  return x >= box.left && x <= box.right && y >= box.top && y <= box.bottom;
+}
+
+// Distance from the mouse to the tooltip, treating the tooltip plus a buffer
+// and the corridor between trigger and tooltip as distance zero
+export function getDistanceFromTooltip(
+  mouseX: number,
+  mouseY: number,
+  placement: Placement,
+  trigger: Box
+): number {
+  const { box } = placement;
+
+  const bufferedTooltip = {
+    left: box.left - TOOLTIP_HOVER_BUFFER,
+    right: box.right + TOOLTIP_HOVER_BUFFER,
+    top: box.top - TOOLTIP_HOVER_BUFFER,
+    bottom: box.bottom + TOOLTIP_HOVER_BUFFER,
+  };
+
+  // Spans trigger and tooltip, widened across the direction of travel
+  const spread = TOOLTIP_CORRIDOR_WIDTH / 2;
+  const [spreadX, spreadY] = isVertical(placement.side)
+    ? [spread, 0]
+    : [0, spread];
+  const corridor = {
+    left: Math.min(trigger.left, box.left) - spreadX,
+    right: Math.max(trigger.right, box.right) + spreadX,
+    top: Math.min(trigger.top, box.top) - spreadY,
+    bottom: Math.max(trigger.bottom, box.bottom) + spreadY,
+  };
+
+  visualizeHoverZones(bufferedTooltip, corridor);
+
+  if (
+    isInside(mouseX, mouseY, bufferedTooltip) ||
+    isInside(mouseX, mouseY, corridor)
+  ) {
+    return 0;
+  }
+
+  const closestX = Math.max(
+    bufferedTooltip.left,
+    Math.min(mouseX, bufferedTooltip.right)
+  );
+  const closestY = Math.max(
+    bufferedTooltip.top,
+    Math.min(mouseY, bufferedTooltip.bottom)
+  );
+
+  return Math.sqrt(
+    Math.pow(mouseX - closestX, 2) + Math.pow(mouseY - closestY, 2)
+  );
+}
+
+export function getTriggerAppearance(trigger: HTMLElement): TooltipAppearance {
+  const { tooltipPosition, tooltipOffset, tooltipTheme, tooltipClass } =
+    trigger.dataset;
+  const offset = Number(tooltipOffset);
+
+  return {
+    position: positions.find((p) => p === tooltipPosition) ?? 'top',
+    offset: tooltipOffset && Number.isFinite(offset) ? offset : DEFAULT_OFFSET,
+    theme: themes.find((t) => t === tooltipTheme),
+    customClass: tooltipClass || undefined,
+    portalTarget: trigger.dataset.tooltipPortal || undefined,
+  };
+}
+
+const FOCUSABLE =
+  'button, a[href], input, select, textarea, [tabindex]:not([tabindex="-1"])';
+
+export function getTooltipElementId(id: string) {
+  return `tooltip-${id}`;
+}
+
+function getFocusable(container: HTMLElement): HTMLElement[] {
+  return [...container.querySelectorAll<HTMLElement>(FOCUSABLE)];
+}
+
+// The trigger arrow keys move to from `trigger` inside a code block, or null
+function findAdjacentTrigger(
+  trigger: HTMLElement,
+  key: string
+): HTMLElement | null {
+  const block = trigger.closest('pre');
+  if (!block) return null;
+
+  const triggers = [...block.querySelectorAll<HTMLElement>('.tooltip-trigger')];
+  const index = triggers.indexOf(trigger);
+
+  switch (key) {
+    case 'ArrowRight':
+      return triggers[index + 1] ?? null;
+    case 'ArrowLeft':
+      return triggers[index - 1] ?? null;
+    case 'Home':
+      return triggers[0] ?? null;
+    case 'End':
+      return triggers[triggers.length - 1] ?? null;
+    case 'ArrowDown':
+    case 'ArrowUp': {
+      // First trigger of the nearest line above or below that has one
+      const line = trigger.closest('.line');
+      const step = key === 'ArrowDown' ? 1 : -1;
+      const lines = [...block.querySelectorAll('.line')];
+      for (
+        let i = lines.indexOf(line!) + step;
+        i >= 0 && i < lines.length;
+        i += step
+      ) {
+        const next = lines[i].querySelector<HTMLElement>('.tooltip-trigger');
+        if (next) return next;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+function getPointerType(event: Event): InputModality {
+  const { pointerType } = event as PointerEvent;
+  return pointerType === 'touch' || pointerType === 'pen'
+    ? pointerType
+    : 'mouse';
+}
+
+export function getTooltipTerm(trigger: HTMLElement): string {
+  return trigger.dataset.tooltipId || trigger.textContent?.trim() || 'unknown';
+}
+
+function getTrigger(target: EventTarget | null): HTMLElement | null {
+  return (target as HTMLElement | null)?.closest?.('.tooltip-trigger') ?? null;
+}
+
+// Owns every open tooltip of a page plus the listeners driving them
+export class TooltipManager {
+  private readonly root: Document | HTMLElement;
+  private readonly clock: TooltipClock;
+  private readonly render: TooltipRenderer;
+  private readonly storage: TooltipStorage | null;
+
+  private readonly entries = new Map<string, TooltipEntry>();
+  private readonly triggerKeys = new WeakMap<HTMLElement, string>();
+  private drag: TooltipDrag | null = null;
+  // Notices triggers leaving the page, e.g. on client-side navigation
+  private mutationObserver: MutationObserver | null = null;
+  // Last z-index handed out; the most recently touched tooltip is on top
+  private topLayer = 0;
+  private portal: HTMLDivElement | null = null;
+  private started = false;
+
+  private modality: InputModality = 'mouse';
+  private press: TouchPress | null = null;
+  // Trigger whose long-press opened the context menu we suppress
+  private longPressed: HTMLElement | null = null;
+
+  private pinned = false;
+  private hoverEnabled = true;
+  private debugEnabled = false;
+
+  constructor(options: TooltipManagerOptions = {}) {
+    this.root = options.root ?? document;
+    this.clock = options.clock ?? browserClock;
+    this.render = options.render ?? renderTooltip;
+    this.storage =
+      options.storage === undefined ? getSessionStorage() : options.storage;
+  }
+
+  get isStarted() {
+    return this.started;
+  }
+
+  get document(): Document {
+    return 'body' in this.root ? this.root : this.root.ownerDocument;
+  }
+
+  start() {
+    if (this.started) return;
+    this.started = true;
+
+    const parent = 'body' in this.root ? this.root.body : this.root;
+    this.portal = createTooltipPortal(parent);
+
+    this.root.addEventListener('pointerover', this.handlePointerOver);
+    this.root.addEventListener('pointerout', this.handlePointerOut);
+    this.root.addEventListener('pointerdown', this.handlePointerDown);
+    this.root.addEventListener('pointerup', this.handlePointerUp);
+    this.root.addEventListener('pointercancel', this.handlePointerCancel);
+    this.root.addEventListener('pointermove', this.handlePointerMove);
+    this.root.addEventListener('contextmenu', this.handleContextMenu);
+    this.root.addEventListener('click', this.handleClick);
+    this.root.addEventListener('focusin', this.handleFocusIn);
+    this.root.addEventListener('focusout', this.handleFocusOut);
+    this.root.addEventListener('keydown', this.handleKeyDown);
+    this.root.addEventListener('scroll', this.handleScroll, {
+      passive: true,
+      capture: true,
+    });
+    this.document.defaultView?.addEventListener('scroll', this.handleScroll, {
+      passive: true,
+    });
+    // Rotating a phone may switch between sheet and anchored layout
+    this.document.defaultView?.addEventListener('resize', this.handleScroll);
+
+    const view = this.document.defaultView;
+    if (view && 'MutationObserver' in view) {
+      this.mutationObserver = new view.MutationObserver(this.handleMutations);
+      this.mutationObserver.observe(this.root, {
+        childList: true,
+        subtree: true,
+      });
+    }
+
+    this.restorePins();
+  }
+
+  // Detach every listener and remove all tooltips and the portal
+  destroy() {
+    if (!this.started) return;
+    this.started = false;
+
+    this.root.removeEventListener('pointerover', this.handlePointerOver);
+    this.root.removeEventListener('pointerout', this.handlePointerOut);
+    this.root.removeEventListener('pointerdown', this.handlePointerDown);
+    this.root.removeEventListener('pointerup', this.handlePointerUp);
+    this.root.removeEventListener('pointercancel', this.handlePointerCancel);
+    this.root.removeEventListener('pointermove', this.handlePointerMove);
+    this.root.removeEventListener('contextmenu', this.handleContextMenu);
+    this.root.removeEventListener('click', this.handleClick);
+    this.root.removeEventListener('focusin', this.handleFocusIn);
+    this.root.removeEventListener('focusout', this.handleFocusOut);
+    this.root.removeEventListener('keydown', this.handleKeyDown);
+    this.root.removeEventListener('scroll', this.handleScroll, {
+      capture: true,
+    });
+    this.document.defaultView?.removeEventListener('scroll', this.handleScroll);
+    this.document.defaultView?.removeEventListener('resize', this.handleScroll);
+    this.mutationObserver?.disconnect();
+    this.mutationObserver = null;
+
+    this.cancelPress();
+    this.drag = null;
+    this.closeAll();
+    this.portal?.remove();
+    this.portal = null;
+  }
+
+  getState(trigger: HTMLElement): TooltipState {
+    return this.entries.get(this.getTriggerKey(trigger))?.state ?? 'idle';
+  }
+
+  // Identifies a trigger by its content and its position among triggers with
+  // the same content, so equal tooltips on different tokens don't collide and
+  // the key survives re-rendering the page
+  getTriggerKey(trigger: HTMLElement): string {
+    if (!this.triggerKeys.has(trigger)) this.indexTriggers();
+    return (
+      this.triggerKeys.get(trigger) ??
+      `${hashString(trigger.getAttribute('data-tooltip') ?? '')}-0`
+    );
+  }
+
+  // Key every trigger of the page in one pass, so large pages stay linear
+  private indexTriggers() {
+    const counts = new Map<string, number>();
+    this.root
+      .querySelectorAll<HTMLElement>('[data-tooltip]')
+      .forEach((trigger) => {
+        const content = trigger.getAttribute('data-tooltip')!;
+        const index = counts.get(content) ?? 0;
+        counts.set(content, index + 1);
+        this.triggerKeys.set(trigger, `${hashString(content)}-${index}`);
+      });
+  }
+
+  getOpenTriggers(): HTMLElement[] {
+    return [...this.entries.values()]
+      .filter((entry) => entry.state !== 'hiding')
+      .map((entry) => entry.trigger);
+  }
+
+  isPinned() {
+    return this.pinned;
+  }
+
+  // While pinned, no tooltip closes on its own; unpinning closes all but the
+  // individually pinned ones
+  setPinned(pinned: boolean) {
+    this.pinned = pinned;
+    if (!pinned) this.closeUnpinned();
+  }
+
+  isTriggerPinned(trigger: HTMLElement) {
+    return !!this.findEntry(trigger)?.isPinned;
+  }
+
+  // Pinning opens the tooltip; unpinning keeps it open but snaps it back to
+  // its trigger
+  setTriggerPinned(trigger: HTMLElement, pinned: boolean) {
+    const wasPinned = this.isTriggerPinned(trigger);
+    if (pinned) {
+      this.open(trigger, { isClickOpened: true, isPinned: true });
+    }
+    const entry = this.findEntry(trigger);
+    if (!entry) return;
+
+    if (pinned && !wasPinned) {
+      emitTooltipEvent('tooltip-pin', this.describe(entry));
+    }
+    entry.isPinned = pinned;
+    if (!pinned) entry.offset = { x: 0, y: 0 };
+    if (entry.props) entry.props.isPinned = pinned;
+    this.raise(entry);
+    this.position(entry);
+    this.savePins();
+  }
+
+  getInputModality(): InputModality {
+    return this.modality;
+  }
+
+  // Narrow viewports show tooltips as a bottom sheet instead of next to
+  // their trigger
+  isSheetLayout() {
+    const width = this.document.defaultView?.innerWidth ?? Infinity;
+    return width <= BOTTOM_SHEET_MAX_WIDTH;
+  }
+
+  isHoverEnabled() {
+    return this.hoverEnabled;
+  }
+
+  // Without hover, triggers open tooltips on click instead
+  setHoverEnabled(enabled: boolean) {
+    this.hoverEnabled = enabled;
+    if (!enabled && !this.pinned) this.closeUnpinned();
+  }
+
+  setDebug(enabled: boolean) {
+    this.debugEnabled = enabled;
+  }
+
+  open(trigger: HTMLElement, { isClickOpened = false, isPinned = false } = {}) {
+    const content = trigger.getAttribute('data-tooltip');
+    if (!content || !this.portal) return;
+
+    const id = this.getTriggerKey(trigger);
+    const existing = this.entries.get(id);
+
+    if (existing) {
+      existing.isClickOpened ||= isClickOpened;
+      existing.isPinned ||= isPinned;
+      // A focus- or hover-opened tooltip promoted by Enter or a click
+      if (existing.props) {
+        existing.props.isClickOpened = existing.isClickOpened;
+        existing.props.isPinned = existing.isPinned;
+      }
+      // Re-entering a hiding tooltip keeps it open
+      if (existing.state === 'hiding') {
+        this.clearTimer(existing);
+        existing.state = 'shown';
+      }
+      this.debug('open - existing tooltip', { id, state: existing.state });
+      return;
+    }
+
+    // A bottom sheet covers the others, so only one is shown at a time
+    if (this.isSheetLayout() && !this.pinned) {
+      this.entries.forEach((other) => {
+        if (!other.isPinned) this.closeEntry(other, true);
+      });
+    }
+
+    const entry: TooltipEntry = {
+      id,
+      content,
+      trigger,
+      state: 'showing',
+      isClickOpened,
+      isPinned,
+      offset: { x: 0, y: 0 },
+      props: null,
+      openedAt: this.clock.now(),
+      mount: null,
+      unmount: null,
+      timer: null,
+      closeTimer: null,
+      placement: null,
+      resizeObserver: null,
+    };
+    entry.timer = this.clock.setTimeout(() => this.show(entry), SHOW_DELAY);
+    this.entries.set(id, entry);
+
+    this.debug('open', { id, isClickOpened, isPinned });
+  }
+
+  close(trigger: HTMLElement, { immediate = false } = {}) {
+    const entry = this.entries.get(this.getTriggerKey(trigger));
+    if (entry) this.closeEntry(entry, immediate);
+  }
+
+  closeAll() {
+    [...this.entries.values()].forEach((entry) => this.closeEntry(entry, true));
+  }
+
+  private closeUnpinned() {
+    [...this.entries.values()].forEach((entry) => {
+      if (!entry.isPinned) this.closeEntry(entry, true);
+    });
+  }
+
+  // Closed by the user, as opposed to by navigation or `destroy`
+  private dismiss(entry: TooltipEntry) {
+    this.closeEntry(entry, true);
+    if (entry.isPinned) this.savePins();
+  }
+
+  // Reopen the tooltips pinned on the current page
+  restorePins() {
+    const pins = this.readPins()[this.getPageKey()];
+    if (!pins?.length || !this.portal) return;
+
+    const triggers = new Map(
+      [...this.root.querySelectorAll<HTMLElement>('[data-tooltip]')].map(
+        (trigger) => [this.getTriggerKey(trigger), trigger]
+      )
+    );
+    pins.forEach(({ key, x, y }) => {
+      const trigger = triggers.get(key);
+      if (!trigger) return;
+
+      this.open(trigger, { isClickOpened: true, isPinned: true });
+      const entry = this.findEntry(trigger);
+      if (entry) entry.offset = { x, y };
+    });
+  }
+
+  private getPageKey() {
+    return this.document.location?.pathname ?? '';
+  }
+
+  private readPins(): Record<string, StoredPin[]> {
+    try {
+      return JSON.parse(this.storage?.getItem(STORAGE_KEY) ?? '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private savePins() {
+    if (!this.storage) return;
+
+    const pins = this.readPins();
+    const page: StoredPin[] = [...this.entries.values()]
+      .filter((entry) => entry.isPinned)
+      .map(({ id, offset }) => ({ key: id, ...offset }));
+
+    if (page.length > 0) {
+      pins[this.getPageKey()] = page;
+    } else {
+      delete pins[this.getPageKey()];
+    }
+
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(pins));
+    } catch {
+      // A full storage only costs persistence
+    }
+  }
+
+  private describe(entry: TooltipEntry): TooltipEventTarget {
+    return {
+      term: getTooltipTerm(entry.trigger),
+      page: this.getPageKey(),
+      kind: entry.trigger.classList.contains('has-error') ? 'error' : 'default',
+    };
+  }
+
+  // Put the tooltip above every other one
+  private raise(entry: TooltipEntry) {
+    if (entry.mount) entry.mount.style.zIndex = String(++this.topLayer);
+  }
+
+  // Keep every tooltip attached to its trigger
+  reposition() {
+    this.entries.forEach((entry) => this.position(entry));
+  }
+
+  private show(entry: TooltipEntry) {
+    entry.timer = null;
+    if (!this.portal) return;
+
+    const { portalTarget, theme, customClass } = getTriggerAppearance(
+      entry.trigger
+    );
+    const container =
+      (portalTarget && this.document.querySelector(portalTarget)) ||
+      this.portal;
+
+    const mount = this.document.createElement('div');
+    mount.id = getTooltipElementId(entry.id);
+    mount.setAttribute('role', 'tooltip');
+    mount.style.cssText = 'position: fixed; left: 0; top: 0;';
+    container.appendChild(mount);
+    entry.trigger.setAttribute('aria-describedby', mount.id);
+
+    entry.mount = mount;
+    // Reactive, so pinning updates the rendered tooltip
+    entry.props = reactive({
+      theme,
+      customClass,
+      content: entry.content,
+      type: entry.trigger.classList.contains('has-error') ? 'error' : 'default',
+      isClickOpened: entry.isClickOpened,
+      isPinned: entry.isPinned,
+      onClose: () => this.dismiss(entry),
+      onTogglePin: () => this.setTriggerPinned(entry.trigger, !entry.isPinned),
+    });
+    entry.unmount = this.render(mount, entry.props);
+    this.raise(entry);
+    // Placement needs the rendered size
+    this.position(entry);
+
+    const view = this.document.defaultView;
+    if (view && 'ResizeObserver' in view) {
+      entry.resizeObserver = new view.ResizeObserver(() =>
+        this.position(entry)
+      );
+      entry.resizeObserver.observe(mount);
+    }
+    entry.state = 'shown';
+    entry.openedAt = this.clock.now();
+    emitTooltipEvent('tooltip-open', {
+      ...this.describe(entry),
+      isClickOpened: entry.isClickOpened,
+    });
+    // Only keyboard users need focus moved; on touch it would scroll the page
+    if (entry.isClickOpened && this.modality === 'keyboard') {
+      this.focusTooltip(entry);
+    }
+
+    this.debug('shown', { id: entry.id });
+  }
+
+  private closeEntry(entry: TooltipEntry, immediate: boolean) {
+    if (entry.state === 'showing' || immediate) {
+      this.remove(entry);
+      return;
+    }
+    if (entry.state === 'hiding') return;
+
+    entry.state = 'hiding';
+    entry.timer = this.clock.setTimeout(() => this.remove(entry), HIDE_DELAY);
+
+    this.debug('hiding', { id: entry.id });
+  }
+
+  private remove(entry: TooltipEntry) {
+    this.clearTimer(entry);
+    this.clearCloseTimer(entry);
+    entry.resizeObserver?.disconnect();
+
+    // Focus inside the tooltip goes back to where it came from
+    const hadFocus = !!entry.mount?.contains(this.document.activeElement);
+    if (entry.trigger.getAttribute('aria-describedby') === entry.mount?.id) {
+      entry.trigger.removeAttribute('aria-describedby');
+    }
+
+    if (this.drag?.entry === entry) this.drag = null;
+    if (entry.mount) {
+      emitTooltipEvent('tooltip-close', {
+        ...this.describe(entry),
+        dwell: this.clock.now() - entry.openedAt,
+      });
+    }
+    entry.unmount?.();
+    entry.mount?.remove();
+    if (hadFocus) entry.trigger.focus();
+    entry.state = 'idle';
+    this.entries.delete(entry.id);
+
+    this.debug('removed', { id: entry.id });
+  }
+
+  // Place the tooltip next to its trigger, flipped and shifted to stay inside
+  // the viewport; hidden while a scroll container clips the trigger away
+  private position(entry: TooltipEntry) {
+    const { mount, trigger } = entry;
+    if (!mount) return;
+
+    if (this.isSheetLayout()) {
+      entry.placement = null;
+      mount.dataset.placement = 'sheet';
+      mount.style.top = 'auto';
+      mount.style.right = '0';
+      mount.style.bottom = '0';
+      mount.style.transform = '';
+      mount.style.visibility = '';
+      return;
+    }
+
+    mount.style.top = '0';
+    mount.style.right = '';
+    mount.style.bottom = '';
+    const { position, offset } = getTriggerAppearance(trigger);
+    const computed = computePlacement(
+      trigger.getBoundingClientRect(),
+      { width: mount.offsetWidth, height: mount.offsetHeight },
+      {
+        position,
+        offset,
+        boundary: getViewport(trigger),
+        clip: getClippingBoundary(trigger),
+      }
+    );
+    // Dragged tooltips keep their distance to the trigger, so they still
+    // follow it while scrolling
+    const { x, y } = entry.offset;
+    const placement: Placement = {
+      ...computed,
+      box: {
+        left: computed.box.left + x,
+        top: computed.box.top + y,
+        right: computed.box.right + x,
+        bottom: computed.box.bottom + y,
+      },
+    };
+
+    entry.placement = placement;
+    mount.dataset.placement = placement.side;
+    mount.toggleAttribute('data-dragged', x !== 0 || y !== 0);
+    mount.style.transform = `translate(${placement.box.left}px, ${placement.box.top}px)`;
+    mount.style.setProperty(
+      '--tooltip-arrow-offset',
+      `${placement.arrowOffset}px`
+    );
+    // Hide tooltips of triggers scrolled out of their container
+    mount.style.visibility = placement.triggerHidden ? 'hidden' : '';
+  }
+
+  getPlacement(trigger: HTMLElement): Placement | null {
+    return this.findEntry(trigger)?.placement ?? null;
+  }
+
+  private clearTimer(entry: TooltipEntry) {
+    if (entry.timer !== null) {
+      this.clock.clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+  }
+
+  private clearCloseTimer(entry: TooltipEntry) {
+    if (entry.closeTimer !== null) {
+      this.clock.clearTimeout(entry.closeTimer);
+      entry.closeTimer = null;
+    }
+  }
+
+  private isInsideTooltip(target: EventTarget | null) {
+    const node = target as Node | null;
+    return (
+      !!this.portal?.contains(node) ||
+      [...this.entries.values()].some((entry) => entry.mount?.contains(node))
+    );
+  }
+
+  private findEntry(trigger: HTMLElement) {
+    return [...this.entries.values()].find(
+      (entry) => entry.trigger === trigger
+    );
+  }
+
+  private findEntryContaining(node: EventTarget | null) {
+    return [...this.entries.values()].find((entry) =>
+      entry.mount?.contains(node as Node | null)
+    );
+  }
+
+  // Move focus into a click-opened tooltip so its close button is reachable
+  private focusTooltip(entry: TooltipEntry) {
+    if (entry.mount) getFocusable(entry.mount)[0]?.focus();
+  }
+
+  private cancelPress() {
+    if (this.press && this.press.timer !== null) {
+      this.clock.clearTimeout(this.press.timer);
+    }
+    this.press = null;
+  }
+
+  // Tapping a trigger toggles its tooltip, like a click without hover
+  private tap(trigger: HTMLElement) {
+    const entry = this.findEntry(trigger);
+    if (entry?.isClickOpened) {
+      this.dismiss(entry);
+      return;
+    }
+    this.open(trigger, { isClickOpened: true });
+  }
+
+  // Touch has no hover: only mouse and pen pointers open on hover
+  private handlePointerOver = (event: Event) => {
+    const trigger = getTrigger(event.target);
+    if (getPointerType(event) === 'touch') return;
+    // Pinned tooltips stay as they are until unpinned
+    if (!trigger || !this.hoverEnabled || this.pinned) return;
+
+    this.open(trigger);
+  };
+
+  private handlePointerOut = (event: Event) => {
+    const trigger = getTrigger(event.target);
+    if (getPointerType(event) === 'touch') return;
+    if (!trigger || !this.hoverEnabled || this.pinned) return;
+
+    const entry = this.findEntry(trigger);
+    if (!entry || entry.isClickOpened) return;
+
+    // Moving onto the tooltip itself keeps it open
+    if (this.isInsideTooltip((event as MouseEvent).relatedTarget)) return;
+
+    this.closeEntry(entry, false);
+  };
+
+  private handlePointerDown = (event: Event) => {
+    const { clientX, clientY } = event as PointerEvent;
+    this.modality = getPointerType(event);
+    this.cancelPress();
+    this.longPressed = null;
+
+    const pressed = this.findEntryContaining(event.target);
+    if (pressed?.isPinned) {
+      this.raise(pressed);
+      if (this.startDrag(pressed, event as PointerEvent)) return;
+    }
+    if (this.modality !== 'touch') return;
+
+    const target = event.target as HTMLElement;
+    if (this.isInsideTooltip(target)) return;
+
+    const trigger = getTrigger(target);
+    if (!trigger) {
+      // Tapping elsewhere closes tapped tooltips, but not long-pressed ones
+      if (this.pinned) return;
+      this.entries.forEach((entry) => {
+        if (entry.isClickOpened && !entry.isPinned) {
+          this.closeEntry(entry, false);
+        }
+      });
+      return;
+    }
+
+    const press: TouchPress = { trigger, x: clientX, y: clientY, timer: null };
+    this.press = press;
+    // Holding the finger down opens the tooltip pinned
+    press.timer = this.clock.setTimeout(() => {
+      press.timer = null;
+      this.press = null;
+      this.longPressed = trigger;
+      this.setTriggerPinned(trigger, true);
+    }, LONG_PRESS_DELAY);
+  };
+
+  // Pinned tooltips move by their drag handle, except as a bottom sheet
+  private startDrag(entry: TooltipEntry, event: PointerEvent) {
+    const handle = (event.target as HTMLElement).closest?.(
+      '.tooltip-drag-handle'
+    );
+    if (!handle || this.isSheetLayout()) return false;
+
+    event.preventDefault();
+    this.drag = {
+      entry,
+      startX: event.clientX,
+      startY: event.clientY,
+      originX: entry.offset.x,
+      originY: entry.offset.y,
+    };
+    return true;
+  }
+
+  private endDrag() {
+    if (!this.drag) return;
+    this.drag = null;
+    this.savePins();
+  }
+
+  private handlePointerUp = (event: Event) => {
+    this.endDrag();
+    const press = this.press;
+    if (!press || getPointerType(event) !== 'touch') return;
+
+    this.cancelPress();
+    if (getTrigger(event.target) === press.trigger) this.tap(press.trigger);
+  };
+
+  private handlePointerCancel = () => {
+    this.endDrag();
+    this.cancelPress();
+  };
+
+  // The browser's own long-press menu would cover a freshly pinned tooltip
+  private handleContextMenu = (event: Event) => {
+    const trigger = getTrigger(event.target);
+    if (trigger && trigger === this.longPressed) event.preventDefault();
+  };
+
+  private handleClick = (event: Event) => {
+    const target = event.target as HTMLElement;
+
+    // Touch taps are handled on pointerup
+    if (this.modality === 'touch') return;
+
+    // Clicks inside a tooltip, including its close button, are its own
+    if (this.isInsideTooltip(target)) return;
+
+    const trigger = getTrigger(target);
+    if (trigger) {
+      if (this.hoverEnabled) return;
+
+      // Clicking the open trigger again closes its tooltip
+      const entry = this.findEntry(trigger);
+      if (entry?.isClickOpened) {
+        this.dismiss(entry);
+        return;
+      }
+
+      this.entries.forEach((other) => {
+        if (other.isClickOpened && !other.isPinned && !this.pinned) {
+          this.closeEntry(other, true);
+        }
+      });
+      this.open(trigger, { isClickOpened: true });
+      return;
+    }
+
+    // Clicking elsewhere closes click-opened tooltips
+    if (this.pinned) return;
+    this.entries.forEach((entry) => {
+      if (entry.isClickOpened && !entry.isPinned) {
+        this.closeEntry(entry, false);
+      }
+    });
+  };
+
+  private handlePointerMove = (event: Event) => {
+    const { clientX, clientY } = event as PointerEvent;
+
+    const drag = this.drag;
+    if (drag) {
+      drag.entry.offset = {
+        x: drag.originX + clientX - drag.startX,
+        y: drag.originY + clientY - drag.startY,
+      };
+      this.position(drag.entry);
+      return;
+    }
+
+    if (getPointerType(event) === 'touch') {
+      // A finger moving away is scrolling, not tapping
+      const press = this.press;
+      if (
+        press &&
+        Math.hypot(clientX - press.x, clientY - press.y) > TAP_MOVE_TOLERANCE
+      ) {
+        this.cancelPress();
+      }
+      return;
+    }
+
+    this.modality = getPointerType(event);
+    this.entries.forEach((entry) => this.clearCloseTimer(entry));
+    if (this.pinned) return;
+
+    this.entries.forEach((entry) => {
+      const { mount, placement } = entry;
+      if (entry.state !== 'shown' || entry.isClickOpened) return;
+      if (!mount || !placement) return;
+      if (this.clock.now() - entry.openedAt < TOOLTIP_CLOSE_DELAY) return;
+
+      const distance = getDistanceFromTooltip(
+        clientX,
+        clientY,
+        placement,
+        entry.trigger.getBoundingClientRect()
+      );
+      if (distance <= TOOLTIP_CLOSE_DISTANCE) return;
+
+      // Don't close if mouse is over a tooltip or trigger
+      const hovered = this.document.elementFromPoint(clientX, clientY);
+      if (this.isInsideTooltip(hovered) || getTrigger(hovered)) return;
+
+      entry.closeTimer = this.clock.setTimeout(() => {
+        entry.closeTimer = null;
+        if (!mount.matches(':hover')) this.closeEntry(entry, false);
+      }, TOOLTIP_CLOSE_DELAY);
+    });
+  };
+
+  private handleFocusIn = (event: Event) => {
+    const trigger = getTrigger(event.target);
+    if (!trigger || this.pinned) return;
+
+    this.open(trigger);
+  };
+
+  // Close when focus leaves both a trigger and its tooltip
+  private handleFocusOut = (event: Event) => {
+    if (this.pinned) return;
+
+    const related = (event as FocusEvent).relatedTarget as Node | null;
+    const trigger = getTrigger(event.target);
+    const entry = trigger
+      ? this.findEntry(trigger)
+      : this.findEntryContaining(event.target);
+    if (!entry || entry.isClickOpened) return;
+
+    if (entry.mount?.contains(related) || entry.trigger === related) return;
+
+    this.closeEntry(entry, false);
+  };
+
+  private handleKeyDown = (event: Event) => {
+    const keyboardEvent = event as KeyboardEvent;
+    const { key } = keyboardEvent;
+    const target = event.target as HTMLElement;
+    const trigger = getTrigger(target);
+    this.modality = 'keyboard';
+
+    if (key === 'Escape') {
+      const entry = this.findEntryContaining(target);
+      if (entry) {
+        this.dismiss(entry);
+        entry.trigger.focus();
+      } else if (this.entries.size > 0) {
+        this.closeUnpinned();
+      }
+      return;
+    }
+
+    if (key === 'Tab') {
+      this.trapFocus(keyboardEvent);
+      return;
+    }
+
+    if (!trigger) return;
+
+    // Enter and Space open a tooltip the keyboard can move into
+    if (key === 'Enter' || key === ' ') {
+      keyboardEvent.preventDefault();
+      const entry = this.findEntry(trigger);
+      if (entry?.isClickOpened) {
+        this.dismiss(entry);
+        return;
+      }
+
+      this.open(trigger, { isClickOpened: true });
+      const opened = this.findEntry(trigger);
+      if (opened?.state === 'shown') this.focusTooltip(opened);
+      return;
+    }
+
+    const next = findAdjacentTrigger(trigger, key);
+    if (next) {
+      keyboardEvent.preventDefault();
+      // Roving tab stop: the focused token is the block's only one
+      trigger.tabIndex = -1;
+      next.tabIndex = 0;
+      next.focus();
+    }
+  };
+
+  // Keep Tab inside click-opened tooltips until they are closed
+  private trapFocus(event: KeyboardEvent) {
+    const entry = this.findEntryContaining(event.target);
+    if (!entry?.isClickOpened || !entry.mount) return;
+
+    const focusable = getFocusable(entry.mount);
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = this.document.activeElement;
+
+    if (!first) {
+      event.preventDefault();
+    } else if (event.shiftKey && active === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && active === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  }
+
+  // Tooltips of removed triggers would otherwise float over the next page and
+  // keep the detached trigger alive
+  private handleMutations = () => {
+    this.entries.forEach((entry) => {
+      if (!entry.trigger.isConnected) this.closeEntry(entry, true);
+    });
+  };
+
+  private handleScroll = () => {
+    if (this.entries.size > 0) this.reposition();
+  };
+
+  private debug(action: string, details: Record<string, unknown>) {
+    if (!this.debugEnabled) return;
+
+    console.log(`[Tooltips] ${action}
+Active Tooltips: ${this.entries.size}
+${[...this.entries.values()]
+  .map(
+    (entry) =>
+      `- ${entry.id} ${entry.state} (${entry.isClickOpened ? 'click' : 'hover'})`
+  )
+  .join('\n')}
+
+Details: ${JSON.stringify(details, null, 2)}
+`);
+  }
+}
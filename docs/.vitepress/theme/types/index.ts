@@ -1,5 +1,6 @@
 // Export all type definitions
 export * from './grpc-apis';
+export * from './jest-apis';
 export * from './promise-apis';
 export * from './tooltip';
 export * from './web-apis';
@@ -0,0 +1,14 @@
+export const jestApiTypes = `
+// Jest's global object. Vitest's vi implements the same API, so Jest samples
+// are checked against it. Only jest.fn differs: Jest takes the mock's return
+// type first and its parameters second.
+declare const jest: Omit<typeof import('vitest').vi, 'fn'> & {
+  fn<T = unknown, Y extends unknown[] = unknown[]>(
+    implementation?: (...args: Y) => T
+  ): jest.Mock<T, Y>;
+};
+
+declare namespace jest {
+  type Mock<T = unknown, Y extends unknown[] = unknown[]> = import('vitest').Mock<Y, T>;
+}
+`;
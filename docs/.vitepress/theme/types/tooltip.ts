@@ -1,12 +1,24 @@
 import { Component } from 'vue';
 
+export type TooltipPosition = 'top' | 'bottom' | 'left' | 'right';
+
+export type TooltipTheme = 'light' | 'dark' | 'custom';
+
+// A component from the tooltip component registry, rendered with `props`
+export interface TooltipComponentRef {
+  name: string;
+  props?: Record<string, unknown>;
+}
+
 export interface CustomTooltip {
   id: string;
-  content: string | Component;
+  // Components given directly are registered under the tooltip's id; pages
+  // refer to registered components with `{ component: { name, props } }`
+  content: string | Component | { component: TooltipComponentRef };
   trigger: string | string[];
   appearance?: {
-    theme?: 'light' | 'dark' | 'custom';
-    position?: 'top' | 'bottom' | 'left' | 'right';
+    theme?: TooltipTheme;
+    position?: TooltipPosition;
     offset?: number;
     animation?: string;
     customClass?: string;
@@ -16,3 +28,39 @@ export interface CustomTooltip {
     strategy?: 'fixed' | 'absolute';
   };
 }
+
+export type TooltipSeverity = 'error' | 'warning' | 'info' | 'success';
+
+export interface TooltipBadge {
+  label: string;
+  color?: {
+    text: string;
+    background: string;
+  };
+}
+
+export interface TooltipCodeSnippet {
+  code: string;
+  language?: string;
+}
+
+export interface TooltipLink {
+  label: string;
+  href: string;
+}
+
+// One message of a tooltip; every part is optional but at least one is shown
+export interface TooltipSection {
+  severity: TooltipSeverity;
+  badge?: TooltipBadge;
+  text?: string;
+  code?: TooltipCodeSnippet;
+  component?: TooltipComponentRef;
+  links?: TooltipLink[];
+}
+
+// Tooltip content as serialized into a trigger's `data-tooltip` attribute
+export interface TooltipPayload {
+  version: 1;
+  sections: TooltipSection[];
+}
@@ -0,0 +1,196 @@
+import { debugLog } from '../../markdown/codePreview';
+import { createErrorToken, createFailureResult } from './shared';
+import type { ParserResult, TokenLocation } from './types';
+
+const keywords = new Set([
+  'if',
+  'then',
+  'else',
+  'elif',
+  'fi',
+  'for',
+  'while',
+  'until',
+  'do',
+  'done',
+  'case',
+  'esac',
+  'in',
+  'function',
+  'select',
+  'time',
+]);
+
+// Keywords after which the next word is a command name again
+const commandPrefixes = new Set([
+  'if',
+  'then',
+  'else',
+  'elif',
+  'do',
+  'while',
+  'until',
+  'time',
+]);
+
+// Operators after which the next word is a command name again
+const commandSeparators = ['&&', '||', ';;', '|', ';', '&', '(', '{', '`'];
+
+// Shell lexer for `bash`/`sh` fences. It skips comments and quoted strings,
+// reports unterminated quotes and tags keywords, command names and variables.
+export function parseBash(code: string): ParserResult {
+  try {
+    debugLog('PARSER', 'Parsing shell block:', code);
+
+    const tokens: TokenLocation[] = [];
+    const errors: TokenLocation[] = [];
+    let pos = 0;
+    let expectCommand = true;
+
+    function readVariable(start: number) {
+      const braced = code[start + 1] === '{';
+      const nameStart = start + (braced ? 2 : 1);
+      const name = /^[A-Za-z_][\w]*|^[0-9@#?*$!-]/.exec(code.slice(nameStart));
+      if (!name) return start + 1;
+
+      tokens.push({
+        start: nameStart,
+        end: nameStart + name[0].length,
+        type: 'variable',
+        text: name[0],
+      });
+
+      if (!braced) return nameStart + name[0].length;
+
+      const close = code.indexOf('}', nameStart);
+      return close === -1 ? code.length : close + 1;
+    }
+
+    function readQuoted(start: number) {
+      const quote = code[start];
+      let i = start + 1;
+
+      while (i < code.length && code[i] !== quote) {
+        if (quote === '"' && code[i] === '\\') {
+          i += 2;
+        } else if (quote === '"' && code[i] === '$') {
+          i = readVariable(i);
+        } else {
+          i++;
+        }
+      }
+
+      if (i >= code.length) {
+        errors.push(
+          createErrorToken(
+            code,
+            start,
+            code.length,
+            `Unterminated ${quote === '"' ? 'double' : 'single'} quote`
+          )
+        );
+        return code.length;
+      }
+
+      return i + 1;
+    }
+
+    while (pos < code.length) {
+      const char = code[pos];
+
+      if (char === '\n') {
+        expectCommand = true;
+        pos++;
+        continue;
+      }
+
+      if (/\s/.test(char)) {
+        pos++;
+        continue;
+      }
+
+      // Line continuation keeps the current command going
+      if (char === '\\' && code[pos + 1] === '\n') {
+        pos += 2;
+        continue;
+      }
+
+      if (char === '#') {
+        const lineEnd = code.indexOf('\n', pos);
+        pos = lineEnd === -1 ? code.length : lineEnd;
+        continue;
+      }
+
+      const separator = commandSeparators.find((op) =>
+        code.startsWith(op, pos)
+      );
+      if (separator) {
+        expectCommand = true;
+        pos += separator.length;
+        continue;
+      }
+
+      if (char === "'" || char === '"') {
+        pos = readQuoted(pos);
+        expectCommand = false;
+        continue;
+      }
+
+      if (char === '$') {
+        if (code[pos + 1] === '(') {
+          expectCommand = true;
+          pos += 2;
+          continue;
+        }
+        pos = readVariable(pos);
+        expectCommand = false;
+        continue;
+      }
+
+      const word = /^[^\s'"`$;&|(){}#]+/.exec(code.slice(pos))?.[0];
+      if (!word) {
+        pos++;
+        continue;
+      }
+
+      const start = pos;
+      pos += word.length;
+
+      // Variable assignments (`FOO=bar cmd`) keep the command position open
+      if (expectCommand && /^[A-Za-z_]\w*=/.test(word)) {
+        const name = word.slice(0, word.indexOf('='));
+        tokens.push({
+          start,
+          end: start + name.length,
+          type: 'variable',
+          text: name,
+        });
+        continue;
+      }
+
+      if (keywords.has(word)) {
+        tokens.push({ start, end: pos, type: 'keyword', text: word });
+        expectCommand = commandPrefixes.has(word);
+        continue;
+      }
+
+      if (expectCommand && /^[\w.\-/]+$/.test(word)) {
+        tokens.push({ start, end: pos, type: 'command', text: word });
+      }
+      expectCommand = false;
+    }
+
+    debugLog('PARSER', 'Parsed tokens:', tokens);
+    debugLog('PARSER', 'Parsed errors:', errors);
+
+    return {
+      tokens,
+      errors,
+      isValid: errors.length === 0,
+      usesFallback: false,
+    };
+  } catch (error: unknown) {
+    console.warn('Shell parsing error:', (error as Error).message);
+    return createFailureResult(code, error);
+  }
+}
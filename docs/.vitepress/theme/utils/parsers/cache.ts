@@ -0,0 +1,137 @@
+import { createHash } from 'crypto';
+import {
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import * as ts from 'typescript';
+import {
+  ambientDeclarations,
+  previewCompilerOptions,
+  typePackageVersions,
+} from './languageService';
+import { getParser, resolveLanguage } from './registry';
+import type { ParseContext, ParserResult } from './types';
+
+// Bump whenever parser output changes, so results cached by older parsers are
+// never read back
+export const PARSER_VERSION = 2;
+
+export interface ParseCacheStats {
+  hits: number;
+  misses: number;
+}
+
+export interface ParseCache {
+  parse(code: string, language: string, context?: ParseContext): ParserResult;
+  getStats(): ParseCacheStats;
+  // Delete the entries this cache neither read nor wrote, returning how many
+  // were deleted. Only complete once every block was parsed, as in a build.
+  prune(): number;
+}
+
+type Parse = (
+  code: string,
+  language: string,
+  context?: ParseContext
+) => ParserResult;
+
+// Everything besides the fence itself that changes what the compiler reports
+const compilerFingerprint = JSON.stringify({
+  typescript: ts.version,
+  options: previewCompilerOptions,
+  types: typePackageVersions,
+  ambientDeclarations,
+});
+
+export function getParseCacheKey(
+  code: string,
+  language: string,
+  context: ParseContext = {}
+): string {
+  return createHash('sha1')
+    .update(
+      JSON.stringify({
+        version: PARSER_VERSION,
+        language: resolveLanguage(language),
+        code,
+        // Grouped blocks depend on their sibling files too
+        context,
+        compiler: compilerFingerprint,
+      })
+    )
+    .digest('hex');
+}
+
+// Content-addressed parse results stored as one JSON file per key in `dir`
+export function createParseCache(dir: string, parse: Parse): ParseCache {
+  const stats: ParseCacheStats = { hits: 0, misses: 0 };
+  // Names of the entries used since the cache was created
+  const used = new Set<string>();
+  mkdirSync(dir, { recursive: true });
+
+  function read(file: string): ParserResult | undefined {
+    try {
+      return JSON.parse(readFileSync(file, 'utf-8'));
+    } catch {
+      // Missing or unreadable entries are parsed again and overwritten
+      return undefined;
+    }
+  }
+
+  function write(file: string, result: ParserResult) {
+    // Write then rename, so concurrent builds never read a partial entry
+    const temporary = `${file}.${process.pid}.tmp`;
+    writeFileSync(temporary, JSON.stringify(result));
+    renameSync(temporary, file);
+  }
+
+  return {
+    parse(code, language, context) {
+      // Nothing to save for languages without a parser
+      if (!getParser(language)) return parse(code, language, context);
+
+      const name = `${getParseCacheKey(code, language, context)}.json`;
+      const file = join(dir, name);
+      const cached = read(file);
+      used.add(name);
+
+      if (cached) {
+        stats.hits++;
+        return cached;
+      }
+
+      stats.misses++;
+      const result = parse(code, language, context);
+
+      // Failures may come from the environment rather than the fence
+      if (!result.usesFallback) {
+        write(file, result);
+      }
+      return result;
+    },
+
+    getStats() {
+      return { ...stats };
+    },
+
+    prune() {
+      // Older parsers, compilers and edited fences leave entries behind
+      const stale = readdirSync(dir).filter(
+        (name) => name.endsWith('.json') && !used.has(name)
+      );
+      stale.forEach((name) => rmSync(join(dir, name), { force: true }));
+      return stale.length;
+    },
+  };
+}
+
+export function formatParseCacheStats({ hits, misses }: ParseCacheStats) {
+  const total = hits + misses;
+  const rate = total === 0 ? 0 : Math.round((hits / total) * 100);
+  return `${hits} hits, ${misses} misses (${rate}% hit rate)`;
+}
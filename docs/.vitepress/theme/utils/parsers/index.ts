@@ -1,60 +1,71 @@
-import { typeDefinitions } from '../typeDefinitions';
-import type { CodeParser, ParserResult } from './types';
-import { parseTypeScript } from './typescript';
+import { parseBash } from './bash';
+import { parseJavaScript, parseJsx } from './javascript';
+import { parseJson, parseJsonc } from './json';
+import { getParser, registerParser, resolveLanguage } from './registry';
+import { createFailureResult } from './shared';
+import type { ParseContext, ParserResult } from './types';
+import { parseTsx, parseTypeScript } from './typescript';
+import { parseVue } from './vue';
 
-// Define supported languages and their parsers
-const parsers: Record<string, CodeParser> = {
-  typescript: parseTypeScript,
-};
+export {
+  createParseCache,
+  formatParseCacheStats,
+  getParseCacheKey,
+  PARSER_VERSION,
+} from './cache';
+export type { ParseCache, ParseCacheStats } from './cache';
+export {
+  getParser,
+  getRegisteredLanguages,
+  registerParser,
+  resolveLanguage,
+} from './registry';
+export type {
+  CodeParser,
+  ParseContext,
+  ParserResult,
+  PreviewGroupFile,
+  TokenLocation,
+} from './types';
 
-// Enhanced fallback parser that handles type definitions
-function defaultParser(code: string): ParserResult {
-  const tokens = [];
-  const errors = [];
+// Register the languages our docs use
+registerParser('typescript', parseTypeScript, {
+  aliases: ['ts', 'mts', 'cts'],
+});
+registerParser('javascript', parseJavaScript, {
+  aliases: ['js', 'mjs', 'cjs'],
+});
+registerParser('jsx', parseJsx);
+registerParser('tsx', parseTsx);
+registerParser('json', parseJson);
+registerParser('jsonc', parseJsonc);
+registerParser('vue', parseVue);
+registerParser('bash', parseBash, { aliases: ['sh', 'shell', 'zsh'] });
 
-  // Always check for type definitions regardless of language
-  for (const [term, info] of Object.entries(typeDefinitions)) {
-    const regex = new RegExp(`\\b${term}\\b`, 'g');
-    let match;
+export function parseCode(
+  code: string,
+  language: string,
+  context?: ParseContext
+): ParserResult {
+  const parser = getParser(language);
 
-    while ((match = regex.exec(code)) !== null) {
-      tokens.push({
-        start: match.index,
-        end: match.index + term.length,
-        type: 'identifier',
-        text: term,
-      });
-    }
+  // Languages without a parser get no tokens rather than guessed ones
+  if (!parser) {
+    return {
+      tokens: [],
+      errors: [],
+      isValid: true,
+      usesFallback: true,
+    };
   }
 
-  return {
-    tokens,
-    errors,
-    isValid: true,
-    usesFallback: true,
-  };
-}
-
-export function parseCode(code: string, language: string): ParserResult {
-  // First run the default parser to get base tokens
-  const defaultResult = defaultParser(code);
-
   try {
-    // Then try language-specific parser if available
-    const parser = parsers[language];
-    if (parser) {
-      const langResult = parser(code);
-      return {
-        tokens: [...defaultResult.tokens, ...langResult.tokens],
-        errors: langResult.errors,
-        isValid: langResult.isValid,
-        usesFallback: false,
-      };
-    }
+    return parser(code, context);
   } catch (error) {
-    console.warn(`Language-specific parsing error for ${language}:`, error);
+    console.warn(
+      `Language-specific parsing error for ${resolveLanguage(language)}:`,
+      error
+    );
+    return createFailureResult(code, error);
   }
-
-  // Return default result if no language parser or if it failed
-  return defaultResult;
 }
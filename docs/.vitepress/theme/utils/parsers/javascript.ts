@@ -0,0 +1,67 @@
+import * as ts from 'typescript';
+import { debugLog } from '../../markdown/codePreview';
+import { attachQuickInfo, getPreviewLanguageService } from './languageService';
+import {
+  collectTokens,
+  createFailureResult,
+  diagnosticsToErrors,
+} from './shared';
+import type { CodeParser, ParserResult } from './types';
+
+const fileNames: Partial<Record<ts.ScriptKind, string>> = {
+  [ts.ScriptKind.JS]: '/preview/script.js',
+  [ts.ScriptKind.JSX]: '/preview/script.jsx',
+  [ts.ScriptKind.TS]: '/preview/script.ts',
+};
+
+// Parse `code` through the preview language service for the given script kind,
+// reporting syntax errors only but attaching quick info to every identifier.
+export function parseScript(
+  code: string,
+  scriptKind: ts.ScriptKind
+): ParserResult {
+  try {
+    debugLog('PARSER', `Parsing ${ts.ScriptKind[scriptKind]} block:`, code);
+
+    const fileName = fileNames[scriptKind] ?? '/preview/script.js';
+    const service = getPreviewLanguageService();
+    service.setFile(fileName, code);
+
+    const sourceFile = service.getSourceFile(fileName);
+    if (!sourceFile) {
+      throw new Error(`Preview source file ${fileName} was not created`);
+    }
+
+    const errors = diagnosticsToErrors(
+      service.getSyntacticDiagnostics(fileName),
+      code
+    );
+    const tokens = attachQuickInfo(
+      service,
+      fileName,
+      collectTokens(sourceFile, code)
+    );
+
+    debugLog('PARSER', 'Parsed tokens:', tokens);
+    debugLog('PARSER', 'Parsed errors:', errors);
+
+    return {
+      tokens,
+      errors,
+      isValid: errors.length === 0,
+      usesFallback: false,
+    };
+  } catch (error: unknown) {
+    console.warn(
+      `${ts.ScriptKind[scriptKind]} parsing error:`,
+      (error as Error).message
+    );
+    return createFailureResult(code, error);
+  }
+}
+
+export const parseJavaScript: CodeParser = (code) =>
+  parseScript(code, ts.ScriptKind.JS);
+
+export const parseJsx: CodeParser = (code) =>
+  parseScript(code, ts.ScriptKind.JSX);
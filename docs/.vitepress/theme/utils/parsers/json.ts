@@ -0,0 +1,200 @@
+import { debugLog } from '../../markdown/codePreview';
+import { createErrorToken, createFailureResult } from './shared';
+import type { CodeParser, ParserResult, TokenLocation } from './types';
+
+interface JsonParserOptions {
+  // Accept `//` and `/* */` comments
+  allowComments?: boolean;
+  // Accept a comma before a closing `}` or `]` (JSONC)
+  allowTrailingCommas?: boolean;
+}
+
+class JsonSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly start: number,
+    public readonly end: number
+  ) {
+    super(message);
+    this.name = 'JsonSyntaxError';
+  }
+}
+
+const literals = ['true', 'false', 'null'];
+
+// Recursive descent JSON parser that records property names and literals
+// and stops at the first syntax error, mirroring `JSON.parse`.
+export function parseJsonDocument(
+  code: string,
+  { allowComments = false, allowTrailingCommas = false }: JsonParserOptions = {}
+): ParserResult {
+  const tokens: TokenLocation[] = [];
+  let pos = 0;
+
+  function fail(message: string, start = pos, end = start + 1): never {
+    throw new JsonSyntaxError(
+      message,
+      Math.min(start, code.length),
+      Math.min(end, code.length)
+    );
+  }
+
+  function skipTrivia() {
+    while (pos < code.length) {
+      const char = code[pos];
+
+      if (/\s/.test(char)) {
+        pos++;
+      } else if (allowComments && code.startsWith('//', pos)) {
+        const lineEnd = code.indexOf('\n', pos);
+        pos = lineEnd === -1 ? code.length : lineEnd + 1;
+      } else if (allowComments && code.startsWith('/*', pos)) {
+        const commentEnd = code.indexOf('*/', pos + 2);
+        if (commentEnd === -1) fail('Unterminated comment', pos, code.length);
+        pos = commentEnd + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  function expect(char: string, message: string) {
+    skipTrivia();
+    if (code[pos] !== char) fail(message);
+    pos++;
+  }
+
+  function parseString(): { start: number; end: number } {
+    const start = pos;
+    pos++; // opening quote
+
+    while (pos < code.length) {
+      const char = code[pos];
+
+      if (char === '"') {
+        pos++;
+        return { start, end: pos };
+      }
+      if (char === '\n') break;
+      pos += char === '\\' ? 2 : 1;
+    }
+
+    return fail('Unterminated string', start, pos);
+  }
+
+  function parseNumber() {
+    const match = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(
+      code.slice(pos)
+    );
+    if (!match) fail(`Unexpected token '${code[pos]}'`);
+    pos += match![0].length;
+  }
+
+  function parseLiteral() {
+    const literal = literals.find((word) => code.startsWith(word, pos));
+    if (!literal) {
+      const word = /^[\w$]+/.exec(code.slice(pos))?.[0] ?? code[pos];
+      fail(`Unexpected token '${word}'`, pos, pos + word.length);
+    }
+
+    tokens.push({
+      start: pos,
+      end: pos + literal!.length,
+      type: 'keyword',
+      text: literal!,
+    });
+    pos += literal!.length;
+  }
+
+  function parseMembers(close: string, parseMember: () => void) {
+    skipTrivia();
+    if (code[pos] === close) {
+      pos++;
+      return;
+    }
+
+    for (;;) {
+      parseMember();
+      skipTrivia();
+
+      if (code[pos] === close) {
+        pos++;
+        return;
+      }
+      if (code[pos] !== ',') fail(`Expected ',' or '${close}'`);
+      pos++;
+
+      skipTrivia();
+      if (code[pos] === close) {
+        if (!allowTrailingCommas) fail('Trailing comma is not allowed');
+        pos++;
+        return;
+      }
+    }
+  }
+
+  function parseValue() {
+    skipTrivia();
+    if (pos >= code.length) fail('Unexpected end of input');
+
+    const char = code[pos];
+
+    if (char === '{') {
+      pos++;
+      parseMembers('}', () => {
+        skipTrivia();
+        if (code[pos] !== '"') fail('Expected property name');
+
+        const { start, end } = parseString();
+        tokens.push({
+          start: start + 1,
+          end: end - 1,
+          type: 'PropertyName',
+          text: code.slice(start + 1, end - 1),
+        });
+
+        expect(':', "Expected ':' after property name");
+        parseValue();
+      });
+    } else if (char === '[') {
+      pos++;
+      parseMembers(']', parseValue);
+    } else if (char === '"') {
+      parseString();
+    } else if (char === '-' || /\d/.test(char)) {
+      parseNumber();
+    } else {
+      parseLiteral();
+    }
+  }
+
+  try {
+    debugLog('PARSER', 'Parsing JSON block:', code);
+
+    parseValue();
+    skipTrivia();
+    if (pos < code.length) fail(`Unexpected token '${code[pos]}'`);
+
+    return { tokens, errors: [], isValid: true, usesFallback: false };
+  } catch (error: unknown) {
+    if (!(error instanceof JsonSyntaxError)) {
+      console.warn('JSON parsing error:', (error as Error).message);
+      return createFailureResult(code, error);
+    }
+
+    return {
+      tokens,
+      errors: [createErrorToken(code, error.start, error.end, error.message)],
+      isValid: false,
+      usesFallback: false,
+    };
+  }
+}
+
+// Our `json` fences conventionally start with a `// package.json` style
+// comment naming the file, so comments are tolerated there too
+export const parseJson: CodeParser = (code) =>
+  parseJsonDocument(code, { allowComments: true });
+
+export const parseJsonc: CodeParser = (code) =>
+  parseJsonDocument(code, { allowComments: true, allowTrailingCommas: true });
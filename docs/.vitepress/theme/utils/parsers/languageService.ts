@@ -0,0 +1,260 @@
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import * as ts from 'typescript';
+import { domApiTypes } from '../../types/dom-apis';
+import { grpcApiTypes } from '../../types/grpc-apis';
+import { jestApiTypes } from '../../types/jest-apis';
+import { promiseApiTypes } from '../../types/promise-apis';
+import { webApiTypes } from '../../types/web-apis';
+import type { TokenLocation, TokenQuickInfo } from './types';
+
+// The repo root: previews import installed packages and take the Node, Vitest
+// and React JSX globals from its node_modules
+const packageDirectory = join(
+  dirname(fileURLToPath(import.meta.url)),
+  '../../../../../'
+);
+
+// Compiler options shared by every type-checked preview block
+export const previewCompilerOptions: ts.CompilerOptions = {
+  noEmit: true,
+  strict: true,
+  allowJs: true,
+  jsx: ts.JsxEmit.Preserve,
+  skipLibCheck: true,
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  // Treat every block as its own module so top-level names don't collide
+  moduleDetection: ts.ModuleDetectionKind.Force,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  types: ['node', 'vitest/globals', 'react'],
+};
+
+// Versions of the packages behind `types`, which change what the compiler
+// reports just like the options do
+export const typePackageVersions: Record<string, string> = Object.fromEntries(
+  ['@types/node', '@types/react', 'vitest'].map((name) => [
+    name,
+    JSON.parse(
+      readFileSync(
+        `${packageDirectory}node_modules/${name}/package.json`,
+        'utf-8'
+      )
+    ).version,
+  ])
+);
+
+// Ambient API declarations from `theme/types`, loaded as global .d.ts files
+export const ambientDeclarations: Record<string, string> = {
+  '/ambient/dom-apis.d.ts': domApiTypes,
+  '/ambient/grpc-apis.d.ts': grpcApiTypes,
+  '/ambient/jest-apis.d.ts': jestApiTypes,
+  '/ambient/promise-apis.d.ts': promiseApiTypes,
+  '/ambient/web-apis.d.ts': webApiTypes,
+};
+
+export interface PreviewLanguageService {
+  setFile(fileName: string, text: string): void;
+  removeFile(fileName: string): void;
+  getSourceFile(fileName: string): ts.SourceFile | undefined;
+  getDiagnostics(fileName: string): ts.Diagnostic[];
+  getSyntacticDiagnostics(fileName: string): ts.Diagnostic[];
+  getSuggestionDiagnostics(fileName: string): ts.DiagnosticWithLocation[];
+  getTypeChecker(): ts.TypeChecker | undefined;
+  getQuickInfo(fileName: string, position: number): TokenQuickInfo | undefined;
+}
+
+interface VirtualFile {
+  version: number;
+  snapshot: ts.IScriptSnapshot;
+}
+
+// Lib and package files and their parsed source files are shared by every
+// service in the process, so they are read and parsed once per build
+const diskSnapshots = new Map<string, ts.IScriptSnapshot | undefined>();
+const documentRegistry = ts.createDocumentRegistry(true, '/');
+
+function readDiskSnapshot(fileName: string): ts.IScriptSnapshot | undefined {
+  if (!diskSnapshots.has(fileName)) {
+    const text = ts.sys?.readFile(fileName);
+    diskSnapshots.set(
+      fileName,
+      text === undefined ? undefined : ts.ScriptSnapshot.fromString(text)
+    );
+  }
+  return diskSnapshots.get(fileName);
+}
+
+export function createPreviewLanguageService(
+  options: ts.CompilerOptions = previewCompilerOptions
+): PreviewLanguageService {
+  const files = new Map<string, VirtualFile>();
+  const defaultLibFile = ts.getDefaultLibFilePath(options);
+  const libDirectory = defaultLibFile.slice(
+    0,
+    defaultLibFile.lastIndexOf('/') + 1
+  );
+
+  function setFile(fileName: string, text: string) {
+    const existing = files.get(fileName);
+    if (
+      existing &&
+      existing.snapshot.getText(0, existing.snapshot.getLength()) === text
+    ) {
+      return;
+    }
+
+    files.set(fileName, {
+      version: (existing?.version ?? 0) + 1,
+      snapshot: ts.ScriptSnapshot.fromString(text),
+    });
+  }
+
+  Object.entries(ambientDeclarations).forEach(([fileName, text]) =>
+    setFile(fileName, text)
+  );
+
+  // Only the lib and the installed packages are read from disk
+  const isDiskFile = (fileName: string) =>
+    fileName.startsWith(libDirectory) ||
+    fileName.startsWith(`${packageDirectory}node_modules/`);
+  const moduleResolutionCache = ts.createModuleResolutionCache(
+    packageDirectory,
+    (fileName) => fileName,
+    options
+  );
+
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => options,
+    getScriptFileNames: () => [...files.keys()],
+    getScriptVersion: (fileName) => String(files.get(fileName)?.version ?? 0),
+    getScriptSnapshot: (fileName) =>
+      files.get(fileName)?.snapshot ?? readDiskSnapshot(fileName),
+    // Resolves `types` from the repo's node_modules
+    getCurrentDirectory: () => packageDirectory,
+    getDefaultLibFileName: (compilerOptions) =>
+      ts.getDefaultLibFilePath(compilerOptions),
+    fileExists: (fileName) =>
+      files.has(fileName) ||
+      (isDiskFile(fileName) && !!readDiskSnapshot(fileName)),
+    readFile: (fileName) => {
+      const snapshot =
+        files.get(fileName)?.snapshot ?? readDiskSnapshot(fileName);
+      return snapshot?.getText(0, snapshot.getLength());
+    },
+    directoryExists: (directoryName) =>
+      isDiskFile(`${directoryName}/`)
+        ? ts.sys.directoryExists(directoryName)
+        : [...files.keys()].some((fileName) =>
+            fileName.startsWith(`${directoryName}/`)
+          ),
+    // pnpm links packages into node_modules from its store
+    realpath: (path) => (isDiskFile(path) ? ts.sys.realpath!(path) : path),
+    // Previews live outside the repo, so they import packages as a file at its
+    // root would
+    resolveModuleNameLiterals: (literals, containingFile, redirect) =>
+      literals.map(({ text }) =>
+        ts.resolveModuleName(
+          text,
+          ts.isExternalModuleNameRelative(text) || isDiskFile(containingFile)
+            ? containingFile
+            : `${packageDirectory}preview.ts`,
+          options,
+          host,
+          moduleResolutionCache,
+          redirect
+        )
+      ),
+    useCaseSensitiveFileNames: () => true,
+  };
+
+  const service = ts.createLanguageService(host, documentRegistry);
+
+  return {
+    setFile,
+
+    removeFile(fileName) {
+      files.delete(fileName);
+    },
+
+    getSourceFile(fileName) {
+      return service.getProgram()?.getSourceFile(fileName);
+    },
+
+    getDiagnostics(fileName) {
+      return [
+        ...service.getSyntacticDiagnostics(fileName),
+        ...service.getSemanticDiagnostics(fileName),
+      ];
+    },
+
+    getSyntacticDiagnostics(fileName) {
+      return service.getSyntacticDiagnostics(fileName);
+    },
+
+    getSuggestionDiagnostics(fileName) {
+      return service.getSuggestionDiagnostics(fileName);
+    },
+
+    getTypeChecker() {
+      return service.getProgram()?.getTypeChecker();
+    },
+
+    getQuickInfo(fileName, position) {
+      const info = service.getQuickInfoAtPosition(fileName, position);
+
+      // Unresolved names have no symbol to describe
+      if (!info || info.kind === ts.ScriptElementKind.unknown) {
+        return undefined;
+      }
+
+      return {
+        kind: info.kind,
+        display: ts.displayPartsToString(info.displayParts),
+        documentation: ts.displayPartsToString(info.documentation),
+      };
+    },
+  };
+}
+
+// Attach the compiler's hover text to every identifier token
+export function attachQuickInfo(
+  service: PreviewLanguageService,
+  fileName: string,
+  tokens: TokenLocation[],
+  offset = 0
+): TokenLocation[] {
+  return tokens.map((token) =>
+    token.type === ts.SyntaxKind[ts.SyntaxKind.Identifier]
+      ? {
+          ...token,
+          quickInfo: service.getQuickInfo(fileName, token.start + offset),
+        }
+      : token
+  );
+}
+
+let sharedService: PreviewLanguageService | null = null;
+let groupService: PreviewLanguageService | null = null;
+
+// Long-lived service reused by every preview block in a build
+export function getPreviewLanguageService(): PreviewLanguageService {
+  if (!sharedService) {
+    sharedService = createPreviewLanguageService();
+  }
+  return sharedService;
+}
+
+// Service for multi-file preview groups. Blocks without imports or exports
+// are scripts here, so fences on one page can share top-level declarations.
+export function getPreviewGroupLanguageService(): PreviewLanguageService {
+  if (!groupService) {
+    groupService = createPreviewLanguageService({
+      ...previewCompilerOptions,
+      moduleDetection: ts.ModuleDetectionKind.Auto,
+    });
+  }
+  return groupService;
+}
@@ -0,0 +1,36 @@
+import type { CodeParser, ParserRegistration } from './types';
+
+// Canonical language name -> parser
+const parsers = new Map<string, CodeParser>();
+
+// Alias -> canonical language name
+const aliases = new Map<string, string>();
+
+function normalize(language: string): string {
+  return language.trim().toLowerCase();
+}
+
+export function registerParser(
+  language: string,
+  parser: CodeParser,
+  { aliases: languageAliases = [] }: ParserRegistration = {}
+) {
+  const canonical = normalize(language);
+
+  parsers.set(canonical, parser);
+  languageAliases.forEach((alias) => aliases.set(normalize(alias), canonical));
+}
+
+// Resolve a fence language (or alias) to its canonical name
+export function resolveLanguage(language: string): string {
+  const normalized = normalize(language);
+  return aliases.get(normalized) ?? normalized;
+}
+
+export function getParser(language: string): CodeParser | undefined {
+  return parsers.get(resolveLanguage(language));
+}
+
+export function getRegisteredLanguages(): string[] {
+  return [...parsers.keys(), ...aliases.keys()];
+}
@@ -0,0 +1,132 @@
+import * as ts from 'typescript';
+import type { ParserResult, TokenLocation } from './types';
+
+export function createErrorToken(
+  code: string,
+  start: number,
+  end: number,
+  message: string
+): TokenLocation {
+  return {
+    start,
+    end,
+    type: 'error',
+    text: code.slice(start, end),
+    error: message,
+  };
+}
+
+export function createWarningToken(
+  code: string,
+  start: number,
+  end: number,
+  message: string
+): TokenLocation {
+  return {
+    start,
+    end,
+    type: 'warning',
+    text: code.slice(start, end),
+    warning: message,
+  };
+}
+
+// Result used when a parser throws, so every language reports failures the same way
+export function createFailureResult(
+  code: string,
+  error: unknown
+): ParserResult {
+  const message = error instanceof Error ? error.message : String(error);
+
+  return {
+    tokens: [],
+    errors: [createErrorToken(code, 0, code.length, message)],
+    isValid: false,
+    usesFallback: true,
+  };
+}
+
+function isKeywordKind(kind: ts.SyntaxKind): boolean {
+  return (
+    kind >= ts.SyntaxKind.FirstKeyword && kind <= ts.SyntaxKind.LastKeyword
+  );
+}
+
+// Collect identifier and keyword tokens from a parsed source file. `offset` is
+// where `code` starts inside the source file text.
+export function collectTokens(
+  sourceFile: ts.SourceFile,
+  code: string,
+  offset = 0
+): TokenLocation[] {
+  const tokens: TokenLocation[] = [];
+
+  function visit(node: ts.Node) {
+    if (node.kind === ts.SyntaxKind.Identifier || isKeywordKind(node.kind)) {
+      const start = node.getStart(sourceFile) - offset;
+      const end = node.getEnd() - offset;
+
+      // Only add token if it's within the original code bounds
+      if (start >= 0 && end <= code.length) {
+        tokens.push({
+          start,
+          end,
+          type: ts.SyntaxKind[node.kind],
+          text: code.slice(start, end),
+        });
+      }
+      return;
+    }
+
+    node.getChildren(sourceFile).forEach(visit);
+  }
+
+  visit(sourceFile);
+
+  return tokens;
+}
+
+function diagnosticsToTokens(
+  diagnostics: readonly ts.Diagnostic[],
+  code: string,
+  offset: number,
+  createToken: typeof createErrorToken
+): TokenLocation[] {
+  const tokens: TokenLocation[] = [];
+
+  diagnostics.forEach((diagnostic) => {
+    if (!diagnostic.file || diagnostic.start === undefined) return;
+
+    const start = diagnostic.start - offset;
+    const end = start + (diagnostic.length ?? 0);
+    const message = ts.flattenDiagnosticMessageText(
+      diagnostic.messageText,
+      '\n'
+    );
+
+    // Only add the token if it's within the original code bounds
+    if (start >= 0 && end <= code.length) {
+      tokens.push(createToken(code, start, end, message));
+    }
+  });
+
+  return tokens;
+}
+
+// Convert compiler diagnostics into error tokens relative to `code`
+export function diagnosticsToErrors(
+  diagnostics: readonly ts.Diagnostic[],
+  code: string,
+  offset = 0
+): TokenLocation[] {
+  return diagnosticsToTokens(diagnostics, code, offset, createErrorToken);
+}
+
+// Convert compiler diagnostics into warning tokens relative to `code`
+export function diagnosticsToWarnings(
+  diagnostics: readonly ts.Diagnostic[],
+  code: string,
+  offset = 0
+): TokenLocation[] {
+  return diagnosticsToTokens(diagnostics, code, offset, createWarningToken);
+}
@@ -1,9 +1,18 @@
+// Hover information reported by the TypeScript language service
+export interface TokenQuickInfo {
+  kind: string;
+  display: string;
+  documentation: string;
+}
+
 export interface TokenLocation {
   start: number;
   end: number;
   type: string;
   text: string;
   error?: string;
+  warning?: string;
+  quickInfo?: TokenQuickInfo;
 }
 
 export interface ParserResult {
@@ -11,6 +20,31 @@ export interface ParserResult {
   isValid: boolean;
   usesFallback: boolean;
   errors?: TokenLocation[];
+  // Problems that do not stop the block from compiling
+  warnings?: TokenLocation[];
+}
+
+// A fence belonging to a multi-file preview group
+export interface PreviewGroupFile {
+  fileName: string;
+  code: string;
 }
 
-export type CodeParser = (code: string) => ParserResult;
+// Where a block lives when it is part of a preview group
+export interface ParseContext {
+  // Virtual file name of the block, e.g. `promise.ts`
+  fileName?: string;
+  group?: {
+    // Unique across the site, e.g. `implementations/custom-promise.md#custom-promise`
+    id: string;
+    files: PreviewGroupFile[];
+  };
+}
+
+export type CodeParser = (code: string, context?: ParseContext) => ParserResult;
+
+// Options accepted when registering a parser for a fence language
+export interface ParserRegistration {
+  // Alternative fence names resolving to the same parser (e.g. `ts`)
+  aliases?: string[];
+}
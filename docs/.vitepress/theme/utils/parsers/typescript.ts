@@ -1,133 +1,116 @@
 import * as ts from 'typescript';
 import { debugLog } from '../../markdown/codePreview';
-import type { ParserResult, TokenLocation } from './types';
+import {
+  attachQuickInfo,
+  getPreviewGroupLanguageService,
+  getPreviewLanguageService,
+  type PreviewLanguageService,
+} from './languageService';
+import {
+  collectTokens,
+  createFailureResult,
+  diagnosticsToErrors,
+  diagnosticsToWarnings,
+} from './shared';
+import type { CodeParser, ParseContext, ParserResult } from './types';
+import { getWarningDiagnostics } from './warnings';
 
-export function parseTypeScript(code: string): ParserResult {
+// Virtual files each ungrouped preview block is checked as
+const PREVIEW_FILE = '/preview/block.ts';
+const PREVIEW_JSX_FILE = '/preview/block.tsx';
+
+// Virtual files of the group currently loaded into the group service
+let activeGroupFiles: string[] = [];
+
+function getGroupDirectory(groupId: string): string {
+  return `/groups/${groupId.replace(/[^\w.-]+/g, '_')}`;
+}
+
+// Load every file of the block's group, replacing the previously loaded group,
+// and return the virtual path of the block itself
+function loadGroup(
+  service: PreviewLanguageService,
+  context: Required<ParseContext>
+): string {
+  const directory = getGroupDirectory(context.group.id);
+  const fileNames = context.group.files.map(
+    (file) => `${directory}/${file.fileName}`
+  );
+
+  activeGroupFiles
+    .filter((fileName) => !fileNames.includes(fileName))
+    .forEach((fileName) => service.removeFile(fileName));
+
+  context.group.files.forEach((file, index) =>
+    service.setFile(fileNames[index], file.code)
+  );
+  activeGroupFiles = fileNames;
+
+  return `${directory}/${context.fileName}`;
+}
+
+export function parseTypeScript(
+  code: string,
+  context: ParseContext = {},
+  jsx = false
+): ParserResult {
   try {
     debugLog('PARSER', 'Parsing code block:', code);
 
-    // Create an isolated module wrapper for the code
-    const wrappedCode = `
-      // @ts-nocheck
-      (() => { 
-        ${code}
-      })();
-    `;
-
-    const sourceFile = ts.createSourceFile(
-      'temp.ts',
-      wrappedCode,
-      ts.ScriptTarget.Latest,
-      true
-    );
-
-    const tokens: TokenLocation[] = [];
-    const errors: TokenLocation[] = [];
-    const validRanges = new Set<string>();
-
-    // Create a program with isolated context
-    const program = ts.createProgram({
-      rootNames: ['temp.ts'],
-      options: {
-        noEmit: true,
-        target: ts.ScriptTarget.Latest,
-        module: ts.ModuleKind.ESNext,
-        lib: ['es2022', 'dom', 'dom.iterable'],
-        isolatedModules: true, // Enable isolated modules
-      },
-      host: {
-        getSourceFile: (fileName) =>
-          fileName === 'temp.ts' ? sourceFile : undefined,
-        getDefaultLibFileName: () => 'lib.d.ts',
-        writeFile: () => {},
-        getCurrentDirectory: () => '/',
-        getDirectories: () => [],
-        fileExists: (fileName) => fileName === 'temp.ts',
-        readFile: () => '',
-        getCanonicalFileName: (fileName) => fileName,
-        useCaseSensitiveFileNames: () => true,
-        getNewLine: () => '\n',
-      },
-    });
-
-    // Adjust token positions to account for wrapper
-    const wrapperOffset = wrappedCode.indexOf(code);
-
-    // Get diagnostics
-    const diagnostics = ts.getPreEmitDiagnostics(program);
+    const isGrouped = !!(context.group && context.fileName);
+    const service = isGrouped
+      ? getPreviewGroupLanguageService()
+      : getPreviewLanguageService();
 
-    debugLog('PARSER', 'Diagnostics:', diagnostics);
+    let fileName = jsx ? PREVIEW_JSX_FILE : PREVIEW_FILE;
+    if (isGrouped) {
+      fileName = loadGroup(service, context as Required<ParseContext>);
+    }
+    service.setFile(fileName, code);
 
-    // Process diagnostics into errors, adjusting positions
-    diagnostics.forEach((diagnostic) => {
-      if (diagnostic.file) {
-        const start = diagnostic.start! - wrapperOffset;
-        const end = start + diagnostic.length!;
-        const message = ts.flattenDiagnosticMessageText(
-          diagnostic.messageText,
-          '\n'
-        );
-
-        // Only add error if it's within the original code bounds
-        if (start >= 0 && end <= code.length) {
-          errors.push({
-            start,
-            end,
-            type: 'error',
-            text: code.slice(start, end),
-            error: message,
-          });
-        }
-      }
-    });
-
-    // Visit nodes to collect tokens, adjusting positions
-    function visit(node: ts.Node) {
-      if (ts.isIdentifier(node) || ts.isKeyword(node.kind)) {
-        const start = node.getStart(sourceFile) - wrapperOffset;
-        const end = node.getEnd() - wrapperOffset;
-        const text = node.getText(sourceFile);
-
-        // Only add token if it's within the original code bounds
-        if (start >= 0 && end <= code.length) {
-          validRanges.add(`${start}-${end}`);
-          tokens.push({
-            start,
-            end,
-            type: ts.SyntaxKind[node.kind],
-            text,
-          });
-        }
-      }
-      ts.forEachChild(node, visit);
+    const sourceFile = service.getSourceFile(fileName);
+    if (!sourceFile) {
+      throw new Error(`Preview source file ${fileName} was not created`);
     }
 
-    visit(sourceFile);
+    // Syntactic and semantic diagnostics against the real lib and ambient APIs,
+    // reported for this block's file only
+    const diagnostics = service
+      .getDiagnostics(fileName)
+      .filter(
+        (diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error
+      );
+
+    debugLog('PARSER', 'Diagnostics:', diagnostics);
+
+    const errors = diagnosticsToErrors(diagnostics, code);
+    const warnings = diagnosticsToWarnings(
+      getWarningDiagnostics(service, fileName, sourceFile),
+      code
+    );
+    const tokens = attachQuickInfo(
+      service,
+      fileName,
+      collectTokens(sourceFile, code)
+    );
 
     debugLog('PARSER', 'Parsed tokens:', tokens);
     debugLog('PARSER', 'Parsed errors:', errors);
+    debugLog('PARSER', 'Parsed warnings:', warnings);
 
     return {
       tokens,
       errors,
+      warnings,
       isValid: errors.length === 0,
       usesFallback: false,
     };
   } catch (error: unknown) {
     console.warn('TypeScript parsing error:', (error as Error).message);
-    return {
-      tokens: [],
-      errors: [
-        {
-          start: 0,
-          end: code.length,
-          type: 'error',
-          text: code,
-          error: (error as Error).message,
-        },
-      ],
-      isValid: false,
-      usesFallback: true,
-    };
+    return createFailureResult(code, error);
   }
 }
+
+// TSX blocks are type-checked like TypeScript ones, with JSX enabled
+export const parseTsx: CodeParser = (code, context) =>
+  parseTypeScript(code, context, true);
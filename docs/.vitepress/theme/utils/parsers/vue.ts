@@ -0,0 +1,70 @@
+import * as ts from 'typescript';
+import { debugLog } from '../../markdown/codePreview';
+import { parseScript } from './javascript';
+import { createErrorToken, createFailureResult } from './shared';
+import type { ParserResult } from './types';
+
+const scriptKinds: Record<string, ts.ScriptKind> = {
+  js: ts.ScriptKind.JS,
+  jsx: ts.ScriptKind.JSX,
+  ts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+};
+
+// Parse the `<script>` blocks of a single-file component. Template and style
+// blocks carry no identifiers we can describe, so they are left untouched.
+export function parseVue(code: string): ParserResult {
+  try {
+    debugLog('PARSER', 'Parsing Vue block:', code);
+
+    const result: ParserResult = {
+      tokens: [],
+      errors: [],
+      isValid: true,
+      usesFallback: false,
+    };
+
+    const openTag = /<script(\s[^>]*)?>/g;
+    let match;
+
+    while ((match = openTag.exec(code)) !== null) {
+      const contentStart = match.index + match[0].length;
+      const contentEnd = code.indexOf('</script>', contentStart);
+
+      if (contentEnd === -1) {
+        result.errors!.push(
+          createErrorToken(
+            code,
+            match.index,
+            contentStart,
+            'Element is missing end tag </script>'
+          )
+        );
+        break;
+      }
+
+      const lang = /\blang=["']([\w]+)["']/.exec(match[1] ?? '')?.[1] ?? 'js';
+      const script = parseScript(
+        code.slice(contentStart, contentEnd),
+        scriptKinds[lang] ?? ts.ScriptKind.JS
+      );
+
+      const shift = <T extends { start: number; end: number }>(token: T) => ({
+        ...token,
+        start: token.start + contentStart,
+        end: token.end + contentStart,
+      });
+
+      result.tokens.push(...script.tokens.map(shift));
+      result.errors!.push(...(script.errors ?? []).map(shift));
+      openTag.lastIndex = contentEnd;
+    }
+
+    result.isValid = result.errors!.length === 0;
+
+    return result;
+  } catch (error: unknown) {
+    console.warn('Vue parsing error:', (error as Error).message);
+    return createFailureResult(code, error);
+  }
+}
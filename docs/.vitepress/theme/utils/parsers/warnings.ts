@@ -0,0 +1,111 @@
+import * as ts from 'typescript';
+import type { PreviewLanguageService } from './languageService';
+
+// Suggestions that only propose refactorings, e.g. "convert to ES module"
+const ignoredSuggestionCodes = new Set([80001, 80004, 80005, 80006]);
+
+const FLOATING_PROMISE_MESSAGE =
+  'Promise is neither awaited nor handled; add `await`, `.catch()` or `void`.';
+
+function isPromiseLike(
+  checker: ts.TypeChecker,
+  type: ts.Type,
+  node: ts.Node
+): boolean {
+  if (type.isUnion()) {
+    return type.types.some((member) => isPromiseLike(checker, member, node));
+  }
+
+  const then = type.getProperty('then');
+  return (
+    !!then &&
+    checker.getTypeOfSymbolAtLocation(then, node).getCallSignatures().length > 0
+  );
+}
+
+// A chain ending in `.catch()` or a two-argument `.then()` handles rejections
+function isHandled(expression: ts.Expression): boolean {
+  if (
+    !ts.isCallExpression(expression) ||
+    !ts.isPropertyAccessExpression(expression.expression)
+  ) {
+    return false;
+  }
+
+  const method = expression.expression.name.text;
+  if (method === 'catch') return true;
+  if (method === 'then') return expression.arguments.length >= 2;
+  if (method === 'finally') return isHandled(expression.expression.expression);
+  return false;
+}
+
+// The name to underline for a call, e.g. `then` in `promise.then(...)`
+function getReportedNode(expression: ts.Expression): ts.Node {
+  const callee =
+    ts.isCallExpression(expression) || ts.isNewExpression(expression)
+      ? expression.expression
+      : expression;
+
+  return ts.isPropertyAccessExpression(callee) ? callee.name : callee;
+}
+
+// Expression statements producing a promise nobody awaits or handles
+export function findFloatingPromises(
+  sourceFile: ts.SourceFile,
+  checker: ts.TypeChecker
+): ts.Diagnostic[] {
+  const diagnostics: ts.Diagnostic[] = [];
+
+  function visit(node: ts.Node) {
+    if (ts.isExpressionStatement(node)) {
+      const { expression } = node;
+      const isCall =
+        ts.isCallExpression(expression) || ts.isNewExpression(expression);
+
+      if (
+        isCall &&
+        !isHandled(expression) &&
+        isPromiseLike(checker, checker.getTypeAtLocation(expression), node)
+      ) {
+        const reported = getReportedNode(expression);
+        diagnostics.push({
+          file: sourceFile,
+          start: reported.getStart(sourceFile),
+          length: reported.getWidth(sourceFile),
+          messageText: FLOATING_PROMISE_MESSAGE,
+          category: ts.DiagnosticCategory.Warning,
+          code: 0,
+        });
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  }
+
+  visit(sourceFile);
+
+  return diagnostics;
+}
+
+// Suggestion diagnostics worth showing (deprecations included) plus floating
+// promises, in source order
+export function getWarningDiagnostics(
+  service: PreviewLanguageService,
+  fileName: string,
+  sourceFile: ts.SourceFile
+): ts.Diagnostic[] {
+  const suggestions = service
+    .getSuggestionDiagnostics(fileName)
+    .filter(
+      (diagnostic) =>
+        diagnostic.reportsDeprecated ||
+        (!diagnostic.reportsUnnecessary &&
+          !ignoredSuggestionCodes.has(diagnostic.code))
+    );
+  const checker = service.getTypeChecker();
+  const floating = checker ? findFloatingPromises(sourceFile, checker) : [];
+
+  return [...suggestions, ...floating].sort(
+    (a, b) => (a.start ?? 0) - (b.start ?? 0)
+  );
+}
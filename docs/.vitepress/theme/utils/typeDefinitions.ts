@@ -25,8 +25,52 @@ export const typeColors = {
     text: '#56b6c2',
     background: 'rgba(86, 182, 194, 0.1)',
   },
+  function: {
+    text: '#61afef',
+    background: 'rgba(97, 175, 239, 0.1)',
+  },
+  class: {
+    text: '#e5c07b',
+    background: 'rgba(229, 192, 123, 0.1)',
+  },
+  type: {
+    text: '#56b6c2',
+    background: 'rgba(86, 182, 194, 0.1)',
+  },
+  property: {
+    text: '#e06c75',
+    background: 'rgba(224, 108, 117, 0.1)',
+  },
+  variable: {
+    text: '#98c379',
+    background: 'rgba(152, 195, 121, 0.1)',
+  },
 };
 
+// Map TypeScript symbol kinds (quick info `kind`) onto the color groups above
+const symbolKindGroups = new Map<string, keyof typeof typeColors>([
+  ['function', 'function'],
+  ['local function', 'function'],
+  ['method', 'function'],
+  ['constructor', 'function'],
+  ['class', 'class'],
+  ['local class', 'class'],
+  ['interface', 'type'],
+  ['type', 'type'],
+  ['enum', 'type'],
+  ['type parameter', 'type'],
+  ['property', 'property'],
+  ['getter', 'property'],
+  ['setter', 'property'],
+  ['enum member', 'property'],
+  ['keyword', 'keyword'],
+  ['primitive', 'primitive'],
+]);
+
+export function getSymbolKindColor(kind: string) {
+  return typeColors[symbolKindGroups.get(kind) ?? 'variable'];
+}
+
 // TypeScript keywords
 export const typeScriptKeywords: TypeInfoRecord = {
   abstract: {
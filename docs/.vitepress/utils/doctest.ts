@@ -0,0 +1,126 @@
+import * as ts from 'typescript';
+import { parseFenceInfo } from '../theme/markdown/fenceInfo';
+import { resolveLanguage } from '../theme/utils/parsers';
+
+export interface MarkdownFence {
+  info: string;
+  // 1-based line of the opening fence
+  line: number;
+  // 0-based source line range of the fence content, end exclusive
+  contentStart: number;
+  contentEnd: number;
+  code: string;
+}
+
+export interface Doctest {
+  file: string;
+  line: number;
+  // Module source keeping every included fence on its markdown line
+  code: string;
+  // Top-level `*Test` constants and functions declared by the fence
+  tests: string[];
+}
+
+// Virtual module ids look like `/docs/page.md.doctest-12.js`
+const DOCTEST_SUFFIX = '.doctest-';
+const DOCTEST_ID = /^(.*\.md)\.doctest-(\d+)\.js$/;
+const doctestLanguages = ['typescript', 'javascript'];
+
+// Find fenced code blocks with a plain line scan, so doctests can be collected
+// without a full markdown renderer
+export function extractFences(source: string): MarkdownFence[] {
+  const lines = source.split('\n');
+  const fences: MarkdownFence[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const opening = /^\s*(`{3,}|~{3,})(.*)$/.exec(lines[index]);
+    if (!opening) continue;
+
+    const [, marker, info] = opening;
+    const closing = new RegExp(`^\\s*${marker[0]}{${marker.length},}\\s*$`);
+    let end = index + 1;
+    while (end < lines.length && !closing.test(lines[end])) end++;
+
+    fences.push({
+      info: info.trim(),
+      line: index + 1,
+      contentStart: index + 1,
+      contentEnd: end,
+      code: lines.slice(index + 1, end).join('\n'),
+    });
+    index = end;
+  }
+
+  return fences;
+}
+
+function isTestName(name: ts.BindingName | ts.Identifier | undefined) {
+  return !!name && ts.isIdentifier(name) && /Test$/.test(name.text);
+}
+
+// Names of the top-level `*Test` declarations a fence defines
+export function findTestNames(code: string): string[] {
+  const sourceFile = ts.createSourceFile(
+    'doctest.ts',
+    code,
+    ts.ScriptTarget.Latest
+  );
+  const names: string[] = [];
+
+  sourceFile.statements.forEach((statement) => {
+    if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach((declaration) => {
+        if (isTestName(declaration.name)) {
+          names.push((declaration.name as ts.Identifier).text);
+        }
+      });
+    } else if (ts.isFunctionDeclaration(statement)) {
+      if (isTestName(statement.name)) names.push(statement.name!.text);
+    }
+  });
+
+  return names;
+}
+
+// Every `:doctest` fence of a page becomes a module containing itself and the
+// doctest fences before it, blanking all other lines so stack traces point at
+// the markdown source
+export function collectDoctests(source: string, file: string): Doctest[] {
+  const sourceLines = source.split('\n');
+  const fences = extractFences(source).filter((fence) => {
+    const { lang, flags } = parseFenceInfo(fence.info);
+    return (
+      flags.includes('doctest') &&
+      doctestLanguages.includes(resolveLanguage(lang))
+    );
+  });
+
+  return fences.map((fence, index) => {
+    const lines = sourceLines.map(() => '');
+    fences.slice(0, index + 1).forEach((included) => {
+      for (let i = included.contentStart; i < included.contentEnd; i++) {
+        lines[i] = sourceLines[i];
+      }
+    });
+
+    const tests = findTestNames(fence.code);
+    if (tests.length > 0) {
+      lines.push(`export { ${tests.join(', ')} };`);
+    }
+
+    return { file, line: fence.line, code: lines.join('\n'), tests };
+  });
+}
+
+export function getDoctestId(file: string, line: number): string {
+  return `${file}${DOCTEST_SUFFIX}${line}.js`;
+}
+
+export function parseDoctestId(
+  id: string
+): { file: string; line: number } | undefined {
+  const match = DOCTEST_ID.exec(id);
+  if (!match) return undefined;
+
+  return { file: match[1], line: Number(match[2]) };
+}
@@ -0,0 +1,13 @@
+import { readdirSync } from 'fs';
+import { join } from 'path';
+
+// All markdown files below `dir`, skipping dot directories such as .vitepress
+export function findMarkdownFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') return [];
+
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) return findMarkdownFiles(fullPath);
+    return entry.name.endsWith('.md') ? [fullPath] : [];
+  });
+}
@@ -0,0 +1,72 @@
+import { extractFences } from './doctest';
+
+export interface MarkdownHeading {
+  level: number;
+  text: string;
+  // The id VitePress gives the rendered heading
+  anchor: string;
+  // 1-based
+  line: number;
+}
+
+const rSpecial = /[\s~`!@#$%^&*()\-_+=[\]{}|\\;:"'“”‘’<>,.?/]+/g;
+const rCombining = /[\u0300-\u036F]/g;
+
+// The C0 control characters, U+0000 to U+001F, which slugs drop
+function stripControlCharacters(str: string): string {
+  return [...str].filter((char) => char.charCodeAt(0) > 0x1f).join('');
+}
+
+// The slugify VitePress uses for heading anchors (from @mdit-vue/shared)
+export function slugify(str: string): string {
+  return stripControlCharacters(str.normalize('NFKD').replace(rCombining, ''))
+    .replace(rSpecial, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .replace(/^(\d)/, '_$1')
+    .toLowerCase();
+}
+
+// Heading text as rendered, without inline markdown
+export function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/(?<!\\)<[^>]+>/g, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__|\*|_|~~)(.+?)\1/g, '$2')
+    // Backslash escapes such as `\<T\>`
+    .replace(/\\(.)/g, '$1')
+    .trim();
+}
+
+// ATX headings outside code fences, with anchors numbered like VitePress
+// numbers duplicates (`-1`, `-2`, …)
+export function extractHeadings(source: string): MarkdownHeading[] {
+  const lines = source.split('\n');
+  const fenced = new Set<number>();
+  extractFences(source).forEach(({ line, contentEnd }) => {
+    for (let index = line - 1; index <= contentEnd; index++) fenced.add(index);
+  });
+
+  const seen = new Map<string, number>();
+  const headings: MarkdownHeading[] = [];
+
+  lines.forEach((line, index) => {
+    if (fenced.has(index)) return;
+    const match = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (!match) return;
+
+    const [, hashes, raw] = match;
+    const custom = /\s*\{#([^}]+)\}$/.exec(raw);
+    const text = toPlainText(custom ? raw.slice(0, custom.index) : raw);
+
+    let anchor = custom?.[1] ?? slugify(text);
+    const count = seen.get(anchor) ?? 0;
+    seen.set(anchor, count + 1);
+    if (count > 0 && !custom) anchor = `${anchor}-${count}`;
+
+    headings.push({ level: hashes.length, text, anchor, line: index + 1 });
+  });
+
+  return headings;
+}
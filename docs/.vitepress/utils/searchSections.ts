@@ -0,0 +1,321 @@
+import * as ts from 'typescript';
+import { getFenceAnchor } from '../theme/markdown/fenceAnchors';
+import { parseFenceInfo } from '../theme/markdown/fenceInfo';
+import { resolveLanguage } from '../theme/utils/parsers';
+import { extractFences, type MarkdownFence } from './doctest';
+import { extractHeadings, toPlainText } from './markdownHeadings';
+
+export type SearchSymbolKind =
+  | 'class'
+  | 'function'
+  | 'interface'
+  | 'type'
+  | 'enum';
+
+export interface SearchSymbol {
+  name: string;
+  kind: SearchSymbolKind;
+}
+
+// A symbol with its declaration header, e.g.
+// `async function withRetry<T>(fn: () => Promise<T>): Promise<T>`
+export interface SymbolDeclaration extends SearchSymbol {
+  signature: string;
+}
+
+// An entry of the symbol table: one place a symbol is defined
+export interface SymbolDefinition extends SymbolDeclaration {
+  title: string;
+  path: string;
+  // The section heading above the fence
+  heading?: string;
+  // Id of the fence, see `getFenceAnchor`
+  anchor: string;
+}
+
+// One search document per page section
+export interface SearchSection {
+  title: string;
+  path: string;
+  // Absent for the text before the first section heading
+  heading?: string;
+  anchor?: string;
+  level?: number;
+  content: string;
+  // Declared by the code fences of the section
+  symbols: SearchSymbol[];
+}
+
+const symbolLanguages = ['typescript', 'javascript'];
+const MAX_CONTENT_LENGTH = 2000;
+const MAX_SIGNATURE_LENGTH = 160;
+
+function isScriptFence({ info }: MarkdownFence) {
+  return symbolLanguages.includes(resolveLanguage(parseFenceInfo(info).lang));
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind) {
+  return (
+    ts.canHaveModifiers(node) &&
+    !!ts.getModifiers(node)?.some((modifier) => modifier.kind === kind)
+  );
+}
+
+function getListText(
+  nodes: readonly ts.Node[] | undefined,
+  sourceFile: ts.SourceFile,
+  separator = ', '
+) {
+  return nodes?.map((node) => node.getText(sourceFile)).join(separator) ?? '';
+}
+
+function getTypeParameters(
+  nodes: readonly ts.Node[] | undefined,
+  sourceFile: ts.SourceFile
+) {
+  return nodes?.length ? `<${getListText(nodes, sourceFile)}>` : '';
+}
+
+function getHeritage(
+  clauses: readonly ts.HeritageClause[] | undefined,
+  sourceFile: ts.SourceFile
+) {
+  return clauses?.length ? ` ${getListText(clauses, sourceFile, ' ')}` : '';
+}
+
+function getFunctionSignature(
+  name: string,
+  node: ts.SignatureDeclarationBase,
+  sourceFile: ts.SourceFile
+) {
+  const prefix = hasModifier(node, ts.SyntaxKind.AsyncKeyword) ? 'async ' : '';
+  const returnType = node.type ? `: ${node.type.getText(sourceFile)}` : '';
+  return `${prefix}function ${name}${getTypeParameters(
+    node.typeParameters,
+    sourceFile
+  )}(${getListText(node.parameters, sourceFile)})${returnType}`;
+}
+
+function getClassSignature(
+  name: string,
+  node: ts.ClassLikeDeclaration,
+  sourceFile: ts.SourceFile
+) {
+  const prefix = hasModifier(node, ts.SyntaxKind.AbstractKeyword)
+    ? 'abstract '
+    : '';
+  return `${prefix}class ${name}${getTypeParameters(
+    node.typeParameters,
+    sourceFile
+  )}${getHeritage(node.heritageClauses, sourceFile)}`;
+}
+
+function getDeclarations(
+  statement: ts.Statement,
+  sourceFile: ts.SourceFile
+): SymbolDeclaration[] {
+  if (ts.isClassDeclaration(statement) && statement.name) {
+    const name = statement.name.text;
+    return [
+      {
+        name,
+        kind: 'class',
+        signature: getClassSignature(name, statement, sourceFile),
+      },
+    ];
+  }
+  if (ts.isFunctionDeclaration(statement) && statement.name) {
+    const name = statement.name.text;
+    return [
+      {
+        name,
+        kind: 'function',
+        signature: getFunctionSignature(name, statement, sourceFile),
+      },
+    ];
+  }
+  if (ts.isInterfaceDeclaration(statement)) {
+    const name = statement.name.text;
+    const signature = `interface ${name}${getTypeParameters(
+      statement.typeParameters,
+      sourceFile
+    )}${getHeritage(statement.heritageClauses, sourceFile)}`;
+    return [{ name, kind: 'interface', signature }];
+  }
+  if (ts.isTypeAliasDeclaration(statement)) {
+    const name = statement.name.text;
+    const signature = `type ${name}${getTypeParameters(
+      statement.typeParameters,
+      sourceFile
+    )} = ${statement.type.getText(sourceFile)}`;
+    return [{ name, kind: 'type', signature }];
+  }
+  if (ts.isEnumDeclaration(statement)) {
+    const name = statement.name.text;
+    const prefix = hasModifier(statement, ts.SyntaxKind.ConstKeyword)
+      ? 'const '
+      : '';
+    return [{ name, kind: 'enum', signature: `${prefix}enum ${name}` }];
+  }
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.flatMap(
+      ({ name, initializer }): SymbolDeclaration[] => {
+        if (!ts.isIdentifier(name) || !initializer) return [];
+        if (
+          ts.isArrowFunction(initializer) ||
+          ts.isFunctionExpression(initializer)
+        ) {
+          return [
+            {
+              name: name.text,
+              kind: 'function',
+              signature: getFunctionSignature(
+                name.text,
+                initializer,
+                sourceFile
+              ),
+            },
+          ];
+        }
+        if (ts.isClassExpression(initializer)) {
+          return [
+            {
+              name: name.text,
+              kind: 'class',
+              signature: getClassSignature(name.text, initializer, sourceFile),
+            },
+          ];
+        }
+        return [];
+      }
+    );
+  }
+  return [];
+}
+
+function normalizeSignature(signature: string) {
+  const normalized = signature.replace(/\s+/g, ' ').trim();
+  return normalized.length > MAX_SIGNATURE_LENGTH
+    ? `${normalized.slice(0, MAX_SIGNATURE_LENGTH - 1)}…`
+    : normalized;
+}
+
+// Top-level definitions of a fence. Fences rarely write `export`, so
+// everything they declare at the top level counts as exported
+export function extractDeclarations(code: string): SymbolDeclaration[] {
+  const sourceFile = ts.createSourceFile(
+    'fence.ts',
+    code,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const declarations: SymbolDeclaration[] = [];
+
+  sourceFile.statements.forEach((statement) => {
+    getDeclarations(statement, sourceFile).forEach((declaration) => {
+      // Overloads and merged declarations are listed once, by the first
+      if (!declarations.some(({ name }) => name === declaration.name)) {
+        declarations.push({
+          ...declaration,
+          signature: normalizeSignature(declaration.signature),
+        });
+      }
+    });
+  });
+
+  return declarations;
+}
+
+export function extractSymbols(code: string): SearchSymbol[] {
+  return extractDeclarations(code).map(({ name, kind }) => ({ name, kind }));
+}
+
+// The symbol table entries of a page body (without frontmatter), one per
+// definition, linking to the fence that contains it
+export function collectDefinitions(
+  markdown: string,
+  page: { title: string; path: string }
+): SymbolDefinition[] {
+  const headings = extractHeadings(markdown).filter(({ level }) => level > 1);
+
+  return extractFences(markdown)
+    .filter(isScriptFence)
+    .flatMap((fence) => {
+      const heading = headings.filter(({ line }) => line < fence.line).pop();
+      return extractDeclarations(fence.code).map((declaration) => ({
+        ...declaration,
+        ...page,
+        heading: heading?.text,
+        anchor: getFenceAnchor(fence.line),
+      }));
+    });
+}
+
+// Prose without markdown syntax, on a single line
+function toSearchText(lines: string[]): string {
+  return toPlainText(
+    lines
+      // Custom containers such as `::: tip`
+      .filter((line) => !/^\s*:::/.test(line))
+      .join('\n')
+  )
+    .replace(/\s+/g, ' ')
+    .slice(0, MAX_CONTENT_LENGTH);
+}
+
+// Split a page body (without frontmatter) into one section per heading below
+// the page title; fenced code is dropped from the content and its symbols kept
+export function splitSections(
+  markdown: string,
+  page: { title: string; path: string }
+): SearchSection[] {
+  const lines = markdown.split('\n');
+  const fences = extractFences(markdown);
+  const headings = extractHeadings(markdown).filter(({ level }) => level > 1);
+  // Section boundaries as 0-based line indexes
+  const starts = [0, ...headings.map(({ line }) => line - 1)];
+
+  return starts.flatMap((start, index) => {
+    const end = starts[index + 1] ?? lines.length;
+    const heading = index > 0 ? headings[index - 1] : undefined;
+    const sectionFences = fences.filter(
+      ({ line }) => line - 1 >= start && line - 1 < end
+    );
+
+    const fenced = new Set<number>();
+    const symbols: SearchSymbol[] = [];
+    sectionFences.forEach((fence) => {
+      for (let i = fence.line - 1; i <= fence.contentEnd; i++) fenced.add(i);
+      if (!isScriptFence(fence)) return;
+
+      extractSymbols(fence.code).forEach((symbol) => {
+        if (!symbols.some(({ name }) => name === symbol.name)) {
+          symbols.push(symbol);
+        }
+      });
+    });
+
+    const body: string[] = [];
+    for (let i = heading ? start + 1 : start; i < end; i++) {
+      // Skip fences and the page title heading
+      if (!fenced.has(i) && !/^#\s/.test(lines[i])) body.push(lines[i]);
+    }
+    const content = toSearchText(body);
+
+    // An empty intro adds nothing the first section does not already have
+    if (!heading && headings.length > 0 && !content && !symbols.length) {
+      return [];
+    }
+
+    return [
+      {
+        ...page,
+        heading: heading?.text,
+        anchor: heading?.anchor,
+        level: heading?.level,
+        content,
+        symbols,
+      },
+    ];
+  });
+}
@@ -0,0 +1,251 @@
+import { createHash } from 'node:crypto';
+import type { MarkdownRenderer } from 'vitepress';
+import { parseFenceInfo } from '../theme/markdown/fenceInfo';
+import {
+  assignPreviewGroups,
+  getPreviewContext,
+  type FenceToken,
+} from '../theme/markdown/previewGroups';
+import { parseCode, resolveLanguage } from '../theme/utils/parsers';
+
+export interface FenceDiagnostic {
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface FenceReport {
+  // 1-based line of the opening fence
+  line: number;
+  // Content hash identifying the fence in the allow-list
+  hash: string;
+  allowed: boolean;
+  diagnostics: FenceDiagnostic[];
+}
+
+export interface FileReport {
+  file: string;
+  fences: FenceReport[];
+}
+
+export interface AllowlistEntry {
+  file: string;
+  hash: string;
+  // Why the fence is expected to fail, e.g. an excerpt of a larger example
+  reason: string;
+}
+
+export interface Allowlist {
+  fences: AllowlistEntry[];
+}
+
+export interface TypecheckReport {
+  summary: {
+    files: number;
+    fences: number;
+    failing: number;
+    allowed: number;
+    new: number;
+  };
+  // Only files with failing fences
+  files: FileReport[];
+  // Allow-list entries whose fence now compiles or no longer exists
+  stale: AllowlistEntry[];
+}
+
+export function hashFence(code: string): string {
+  return createHash('sha1').update(code).digest('hex').slice(0, 12);
+}
+
+// Parse the allow-list file, rejecting entries that do not say why their
+// fence is allowed to fail
+export function parseAllowlist(raw: string): Allowlist {
+  let value: { fences?: Partial<Record<keyof AllowlistEntry, unknown>>[] };
+  try {
+    value = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid allow-list: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(value?.fences)) {
+    throw new Error('Invalid allow-list: missing fences');
+  }
+  value.fences.forEach((entry) => {
+    if (typeof entry?.file !== 'string' || typeof entry.hash !== 'string') {
+      throw new Error('Invalid allow-list entry: missing file or hash');
+    }
+    if (typeof entry.reason !== 'string' || !entry.reason.trim()) {
+      throw new Error(
+        `Invalid allow-list entry: ${entry.file} ${entry.hash} has no reason`
+      );
+    }
+  });
+
+  return value as Allowlist;
+}
+
+function getLineAndColumn(code: string, offset: number) {
+  const lines = code.slice(0, offset).split('\n');
+  return { line: lines.length - 1, column: lines[lines.length - 1].length };
+}
+
+// Fence languages whose parser type-checks the code
+const checkedLanguages = ['typescript', 'tsx'];
+
+// Type-check every TypeScript and TSX fence of one markdown file, returning all
+// fences with their diagnostics so callers can tell passing fences from stale
+// entries
+export function checkMarkdownFile(
+  md: MarkdownRenderer,
+  source: string,
+  file: string,
+  relativePath: string
+): FenceReport[] {
+  const env = { path: file, relativePath, cleanUrls: true };
+  const tokens = md.parse(source, env) as FenceToken[];
+  const sourceLines = source.split('\n');
+
+  assignPreviewGroups(tokens);
+
+  return tokens
+    .filter(
+      (token) =>
+        token.type === 'fence' &&
+        checkedLanguages.includes(
+          resolveLanguage(parseFenceInfo(token.info).lang)
+        )
+    )
+    .map((token) => {
+      const { lang } = parseFenceInfo(token.info);
+      const fenceLine = token.map?.[0] ?? 0;
+      const indent = /^\s*/.exec(sourceLines[fenceLine] ?? '')![0].length;
+      const result = parseCode(
+        token.content,
+        lang,
+        getPreviewContext(token, relativePath)
+      );
+
+      return {
+        line: fenceLine + 1,
+        hash: hashFence(token.content),
+        allowed: false,
+        diagnostics: (result.errors ?? []).map((error) => {
+          const position = getLineAndColumn(token.content, error.start);
+          return {
+            // The code starts on the line after the opening fence
+            line: fenceLine + 2 + position.line,
+            column: indent + position.column + 1,
+            message: error.error ?? 'Unknown error',
+          };
+        }),
+      };
+    });
+}
+
+// Combine per-file results with the allow-list into the final report
+export function createReport(
+  results: { file: string; fences: FenceReport[] }[],
+  allowlist: Allowlist
+): TypecheckReport {
+  const allowed = new Set(
+    allowlist.fences.map((entry) => `${entry.file}#${entry.hash}`)
+  );
+  const failingKeys = new Set<string>();
+  const files: FileReport[] = [];
+  let fenceCount = 0;
+
+  results.forEach(({ file, fences }) => {
+    fenceCount += fences.length;
+
+    const failing = fences
+      .filter((fence) => fence.diagnostics.length > 0)
+      .map((fence) => {
+        const key = `${file}#${fence.hash}`;
+        failingKeys.add(key);
+        return { ...fence, allowed: allowed.has(key) };
+      });
+
+    if (failing.length > 0) {
+      files.push({ file, fences: failing });
+    }
+  });
+
+  const failingFences = files.flatMap((file) => file.fences);
+  const allowedCount = failingFences.filter((fence) => fence.allowed).length;
+
+  return {
+    summary: {
+      files: results.length,
+      fences: fenceCount,
+      failing: failingFences.length,
+      allowed: allowedCount,
+      new: failingFences.length - allowedCount,
+    },
+    files,
+    stale: allowlist.fences.filter(
+      (entry) => !failingKeys.has(`${entry.file}#${entry.hash}`)
+    ),
+  };
+}
+
+// Allow-list covering every currently failing fence, keeping existing reasons.
+// New failures get an empty reason that has to be filled in by hand.
+export function createAllowlist(
+  report: TypecheckReport,
+  previous: Allowlist
+): Allowlist {
+  const reasons = new Map(
+    previous.fences.map((entry) => [
+      `${entry.file}#${entry.hash}`,
+      entry.reason,
+    ])
+  );
+
+  return {
+    fences: report.files.flatMap(({ file, fences }) =>
+      fences.map((fence) => ({
+        file,
+        hash: fence.hash,
+        reason: reasons.get(`${file}#${fence.hash}`) ?? '',
+      }))
+    ),
+  };
+}
+
+// Human-readable report listing new errors and stale entries; diagnostics of
+// allowed fences are only listed when `verbose` is set
+export function formatReport(
+  report: TypecheckReport,
+  { verbose = false }: { verbose?: boolean } = {}
+): string {
+  const lines: string[] = [];
+
+  report.files.forEach(({ file, fences }) => {
+    const listed = fences.filter((fence) => verbose || !fence.allowed);
+    if (listed.length === 0) return;
+
+    lines.push(file);
+    listed.forEach((fence) => {
+      const status = fence.allowed ? 'allowed' : 'error';
+      fence.diagnostics.forEach((diagnostic) => {
+        const [message] = diagnostic.message.split('\n');
+        lines.push(
+          `  ${diagnostic.line}:${diagnostic.column}  ${status}  ${message}  (fence at line ${fence.line}, ${fence.hash})`
+        );
+      });
+    });
+    lines.push('');
+  });
+
+  report.stale.forEach((entry) => {
+    lines.push(`stale allow-list entry: ${entry.file} ${entry.hash}`);
+  });
+  if (report.stale.length > 0) lines.push('');
+
+  const { summary } = report;
+  lines.push(
+    `${summary.fences} fences in ${summary.files} files: ${summary.failing} failing, ${summary.allowed} allowed, ${summary.new} new`
+  );
+
+  return lines.join('\n');
+}
@@ -1,8 +1,20 @@
 import vue from '@vitejs/plugin-vue';
+import { fileURLToPath, URL } from 'node:url';
 import { defineConfig } from 'vitest/config';
+import { doctestPlugin } from './docs/.vitepress/plugins/doctest';
 
 export default defineConfig({
-  plugins: [vue()],
+  plugins: [vue(), doctestPlugin()],
+  resolve: {
+    alias: {
+      'virtual:search-index': fileURLToPath(
+        new URL(
+          './docs/.vitepress/theme/__tests__/mocks/searchIndex.ts',
+          import.meta.url
+        )
+      ),
+    },
+  },
   test: {
     globals: true,
     environment: 'happy-dom',